@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
 import { Button } from './components/ui/button'
 import { Progress } from './components/ui/progress'
@@ -6,6 +6,11 @@ import { Badge } from './components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { Separator } from './components/ui/separator'
+import { Input } from './components/ui/input'
+import { ConverterOptions } from './components/ConverterOptions'
+import { ConversionHistory } from './components/ConversionHistory'
+import { FolderPreview } from './components/FolderPreview'
+import { NavLink, Route, Routes, useNavigate } from 'react-router-dom'
 import { 
   Upload, 
   FileText, 
@@ -18,66 +23,244 @@ import {
   AlertCircle,
   FileIcon,
   Trash2,
-  RefreshCw
+  RefreshCw,
+  ArrowRight,
+  Pause,
+  Play,
+  Clock,
+  RotateCcw,
+  HardDrive,
+  History,
+  Archive,
+  FolderOpen
 } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
-import { fileConverter } from './utils/fileConverter'
+import {
+  getDefaultOptions,
+  getPlanOptions,
+  planConversion,
+  runPlan,
+  type OptionValues
+} from './converters'
+import {
+  ConversionScheduler,
+  getOverallProgress,
+  type ConversionJob,
+  type JobOutput,
+  type JobPriority,
+  type NewJob
+} from './scheduler/scheduler'
+import { useSchedulerState } from './hooks/use-scheduler'
+import {
+  FORMAT_CATEGORIES,
+  getAcceptedExtensions,
+  getCategoryFormats,
+  getInputCategory,
+  getOutputFormats,
+  probeBrowserSupport,
+  type BrowserSupport
+} from './utils/capabilities'
+import { detectFormat, withExtension, type DetectedFormat } from './utils/sniff'
+import { expandArchive, isArchiveFormat } from './utils/archives'
+import {
+  getDroppedEntries,
+  readDirectoryHandle,
+  readDirectoryInput,
+  readDroppedEntries,
+  parentFolder,
+  type PickedFile
+} from './utils/folders'
+import { COLLISION_POLICIES, supportsOutputDirectory, writeToDirectory, type CollisionPolicy } from './utils/outputDirectory'
+import { useOutputDirectory, type OutputDirectory } from './hooks/use-output-directory'
+import { useNameTemplate } from './hooks/use-name-template'
+import {
+  DEFAULT_NAME_TEMPLATE,
+  NAME_TOKENS,
+  describeOptions,
+  getBaseName,
+  measureOutput,
+  renderNameTemplate
+} from './utils/naming'
+import { isAbortError } from './utils/abort'
+import { getStorageUsage, startPersistence, type StorageUsage } from './storage/persistence'
+import { loadBlob, sourceBlobId } from './storage/blobStore'
+import type { HistoryEntry } from './storage/historyStore'
+import { formatFileSize } from './utils/format'
+import { downloadUrl, saveStream } from './utils/download'
+import {
+  ARCHIVE_COMPRESSIONS,
+  ARCHIVE_LAYOUTS,
+  getArchiveEntries,
+  type ArchiveCompression,
+  type ArchiveLayout
+} from './utils/outputArchive'
+import { createZipStream } from './utils/zip'
 
-interface ConversionFile {
-  id: string
+const getFileIcon = (extension: string) => {
+  const category = getInputCategory(extension)
+  switch (category) {
+    case 'image': return <Image className="w-5 h-5" />
+    case 'video': return <Video className="w-5 h-5" />
+    case 'audio': return <Music className="w-5 h-5" />
+    case 'document': return <FileText className="w-5 h-5" />
+    default: return <FileIcon className="w-5 h-5" />
+  }
+}
+
+interface InputFile {
   file: File
-  originalFormat: string
-  targetFormat: string
-  status: 'pending' | 'converting' | 'completed' | 'error'
-  progress: number
-  downloadUrl?: string
-  error?: string
+  /** Relative path when the file came from a folder or archive */
+  path?: string
 }
 
-const SUPPORTED_FORMATS = {
-  image: {
-    input: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'tiff', 'svg'],
-    output: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'tiff']
-  },
-  video: {
-    input: ['mp4', 'avi', 'mov', 'wmv', 'flv', 'mkv', 'webm', 'm4v'],
-    output: ['mp4', 'avi', 'mov', 'wmv', 'webm', 'mkv']
-  },
-  audio: {
-    input: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a', 'wma'],
-    output: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a']
-  },
-  document: {
-    input: ['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt'],
-    output: ['pdf', 'doc', 'docx', 'txt', 'rtf', 'png', 'jpg']
-  }
+interface DetectedInput extends InputFile {
+  detected: DetectedFormat
 }
 
-const getFileCategory = (extension: string): keyof typeof SUPPORTED_FORMATS | null => {
-  const ext = extension.toLowerCase()
-  for (const [category, formats] of Object.entries(SUPPORTED_FORMATS)) {
-    if (formats.input.includes(ext)) {
-      return category as keyof typeof SUPPORTED_FORMATS
-    }
+/** Detect a dropped file's format, expanding archives into the supported files they contain */
+const unpackInput = async ({ file, path }: InputFile): Promise<DetectedInput[]> => {
+  const detected = await detectFormat(file)
+  if (!isArchiveFormat(detected.format)) return [{ file, path, detected }]
+
+  // Members of an archive found in a folder sit next to where the archive was
+  const folder = parentFolder(path)
+  try {
+    const members = await expandArchive(file, detected.format)
+    const inputs = await Promise.all(
+      members.map(async member => ({
+        file: member.file,
+        path: folder + member.path,
+        detected: await detectFormat(member.file)
+      }))
+    )
+    const supported = inputs.filter(input => getInputCategory(input.detected.format))
+    const skipped = inputs.length - supported.length
+    toast.success(
+      `Found ${supported.length} file(s) in ${file.name}` + (skipped ? `; skipped ${skipped} unsupported` : '')
+    )
+    return supported
+  } catch (error) {
+    console.error('Archive error:', error)
+    toast.error(`Could not open ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    return []
   }
-  return null
 }
 
-const getFileIcon = (extension: string) => {
-  const category = getFileCategory(extension)
-  switch (category) {
-    case 'image': return <Image className="w-5 h-5" />
-    case 'video': return <Video className="w-5 h-5" />
-    case 'audio': return <Music className="w-5 h-5" />
-    case 'document': return <FileText className="w-5 h-5" />
-    default: return <FileIcon className="w-5 h-5" />
+const getJobDefaults = (job: ConversionJob, support?: BrowserSupport | null) =>
+  getDefaultOptions(getPlanOptions(planConversion(job.originalFormat, job.targetFormat, support)))
+
+/** Write a job's newest output into the output folder, mirroring where its source sat */
+const saveToDirectory = async (directory: OutputDirectory, job: ConversionJob) => {
+  const output = job.outputs[job.outputs.length - 1]
+  if (!directory.handle || !output?.blob) return
+
+  const path = parentFolder(job.path) + output.name
+  try {
+    const written = await writeToDirectory(directory.handle, path, output.blob, directory.policy)
+    if (written) {
+      toast.success(`${job.file.name} converted and saved to ${directory.handle.name}/${written}`)
+    } else {
+      toast(`${job.file.name} converted; ${path} already exists in ${directory.handle.name}, so it was not saved`, {
+        icon: '⏭️'
+      })
+    }
+  } catch (error) {
+    console.error('Save error:', error)
+    toast.error(`Could not save ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
 function App() {
-  const [files, setFiles] = useState<ConversionFile[]>([])
   const [dragActive, setDragActive] = useState(false)
+  const [browserSupport, setBrowserSupport] = useState<BrowserSupport | null>(null)
+  // Mirrors browserSupport for handlers that are memoized before probing completes
+  const browserSupportRef = useRef<BrowserSupport | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
+  const [folderFiles, setFolderFiles] = useState<PickedFile[] | null>(null)
+  const navigate = useNavigate()
+  const outputDirectory = useOutputDirectory()
+  const nameTemplate = useNameTemplate()
+  const [scheduler] = useState(() => new ConversionScheduler({
+    run: (job, onProgress, signal) => {
+      const plan = planConversion(job.originalFormat, job.targetFormat, browserSupportRef.current)
+      if (!plan) {
+        throw new Error(`No converter for ${job.originalFormat} to ${job.targetFormat}`)
+      }
+      return runPlan(plan, withExtension(job.file, job.originalFormat), job.options, onProgress, signal)
+    },
+    nameOutput: async (job, blob, { extension, index }) => {
+      const template = nameTemplate.latest.current
+      return renderNameTemplate(template, {
+        name: getBaseName(job.file.name),
+        ext: extension,
+        index,
+        date: new Date(),
+        preset: describeOptions(job.options, getJobDefaults(job, browserSupportRef.current)),
+        ...(await measureOutput(template, blob))
+      })
+    },
+    onJobComplete: job => {
+      const directory = outputDirectory.latest.current
+      if (directory.handle && directory.writable) {
+        saveToDirectory(directory, job)
+      } else {
+        toast.success(`${job.file.name} converted successfully!`)
+      }
+    },
+    onJobError: (job, error) => {
+      console.error('Conversion error:', error)
+      toast.error(`Failed to convert ${job.file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }))
+  const queue = useSchedulerState(scheduler)
+  const [storage, setStorage] = useState<StorageUsage | null>(null)
+  const [archiveLayout, setArchiveLayout] = useState<ArchiveLayout>('flat')
+  const [archiveCompression, setArchiveCompression] = useState<ArchiveCompression>('auto')
+  const [archiving, setArchiving] = useState(false)
+  const files = queue.jobs
+  const overall = getOverallProgress(queue)
+
+  useEffect(() => {
+    probeBrowserSupport().then(support => {
+      browserSupportRef.current = support
+      setBrowserSupport(support)
+      // Files added before probing finished may target a format this browser cannot encode
+      for (const job of scheduler.getSnapshot().jobs) {
+        const outputs = getOutputFormats(job.originalFormat, support)
+        if (!outputs.includes(job.targetFormat) && outputs.length) {
+          scheduler.update(job.id, {
+            targetFormat: outputs[0],
+            options: getDefaultOptions(getPlanOptions(planConversion(job.originalFormat, outputs[0], support)))
+          })
+        }
+      }
+    })
+  }, [scheduler])
+
+  useEffect(() => {
+    const refreshStorage = () => getStorageUsage().then(setStorage)
+    refreshStorage()
+    return startPersistence(scheduler, {
+      onRestore: jobs => {
+        const interrupted = jobs.some(job => job.status === 'queued' || job.status === 'converting')
+        toast.success(
+          `Restored ${jobs.length} file(s) from your last session` +
+          (interrupted ? '. The queue is paused; resume to continue.' : '')
+        )
+      },
+      onStorageChange: refreshStorage,
+      onError: error => console.error('Storage error:', error)
+    })
+  }, [scheduler])
+
+  const previewFolder = useCallback((picked: PickedFile[]) => {
+    if (picked.length) {
+      setFolderFiles(picked)
+    } else {
+      toast.error('The folder is empty')
+    }
+  }, [])
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -89,157 +272,172 @@ function App() {
     }
   }, [])
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    setDragActive(false)
-    
-    const droppedFiles = Array.from(e.dataTransfer.files)
-    handleFiles(droppedFiles)
-  }, [])
-
-  const handleFiles = (fileList: File[]) => {
-    const newFiles: ConversionFile[] = fileList.map(file => {
-      const extension = file.name.split('.').pop()?.toLowerCase() || ''
-      const category = getFileCategory(extension)
+  const handleFiles = useCallback(async (fileList: InputFile[]) => {
+    const inputs = (await Promise.all(fileList.map(unpackInput))).flat()
+    const newJobs: NewJob[] = inputs.map(({ file, path, detected }) => {
+      const { format, declared, mismatch } = detected
+      const outputs = getOutputFormats(format, browserSupportRef.current)
+      const category = getInputCategory(format)
       
-      if (!category) {
-        toast.error(`Unsupported file format: ${extension}`)
+      if (!outputs.length || !category) {
+        toast.error(`Unsupported file format: ${format || file.name}`)
         return null
       }
 
+      if (mismatch) {
+        toast(`${file.name} is named .${declared} but contains ${format.toUpperCase()} data; converting it as .${format}`, {
+          icon: '⚠️'
+        })
+      }
+
       return {
-        id: Math.random().toString(36).substr(2, 9),
         file,
-        originalFormat: extension,
-        targetFormat: SUPPORTED_FORMATS[category].output[0], // Default to first output format
-        status: 'pending' as const,
-        progress: 0
+        path,
+        originalFormat: format,
+        category,
+        targetFormat: outputs[0], // Default to first output format
+        options: getDefaultOptions(getPlanOptions(planConversion(format, outputs[0], browserSupportRef.current)))
       }
-    }).filter(Boolean) as ConversionFile[]
+    }).filter(Boolean) as NewJob[]
+    if (!newJobs.length) return
 
-    setFiles(prev => [...prev, ...newFiles])
-    toast.success(`Added ${newFiles.length} file(s) for conversion`)
-  }
+    scheduler.add(newJobs)
+    toast.success(`Added ${newJobs.length} file(s) for conversion`)
+  }, [scheduler])
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDragActive(false)
+    
+    const entries = getDroppedEntries(e.dataTransfer)
+    if (entries.some(entry => entry.isDirectory)) {
+      readDroppedEntries(entries).then(previewFolder, error => {
+        console.error('Folder read error:', error)
+        toast.error('Could not read the dropped folder')
+      })
+      return
+    }
+
+    const droppedFiles = Array.from(e.dataTransfer.files)
+    handleFiles(droppedFiles.map(file => ({ file })))
+  }, [handleFiles, previewFolder])
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      handleFiles(Array.from(e.target.files))
+      handleFiles(Array.from(e.target.files).map(file => ({ file })))
     }
   }
 
-  const updateFileFormat = (fileId: string, newFormat: string) => {
-    setFiles(prev => prev.map(file => 
-      file.id === fileId ? { ...file, targetFormat: newFormat } : file
-    ))
-  }
-
-  const removeFile = (fileId: string) => {
-    setFiles(prev => prev.filter(file => file.id !== fileId))
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      previewFolder(readDirectoryInput(e.target.files))
+      // Picking the same folder again should still fire a change
+      e.target.value = ''
+    }
   }
 
-  const convertFile = async (fileId: string) => {
-    const file = files.find(f => f.id === fileId)
-    if (!file) return
-
-    const category = getFileCategory(file.originalFormat)
-    if (!category) {
-      toast.error('Unsupported file format')
+  const chooseFolder = async () => {
+    if (!window.showDirectoryPicker) {
+      folderInputRef.current?.click()
       return
     }
-
-    // Update status to converting
-    setFiles(prev => prev.map(f => 
-      f.id === fileId ? { ...f, status: 'converting' as const, progress: 0 } : f
-    ))
-
     try {
-      let convertedBlob: Blob
-
-      const onProgress = (progress: { progress: number; status: string; message?: string }) => {
-        setFiles(prev => prev.map(f => 
-          f.id === fileId ? { 
-            ...f, 
-            progress: progress.progress,
-            status: progress.status as 'converting' | 'completed' | 'error'
-          } : f
-        ))
-      }
-
-      // Perform actual conversion based on file category
-      switch (category) {
-        case 'image':
-          convertedBlob = await fileConverter.convertImage(file.file, file.targetFormat, onProgress)
-          break
-        case 'video':
-          convertedBlob = await fileConverter.convertVideo(file.file, file.targetFormat, onProgress)
-          break
-        case 'audio':
-          convertedBlob = await fileConverter.convertAudio(file.file, file.targetFormat, onProgress)
-          break
-        case 'document':
-          convertedBlob = await fileConverter.convertDocument(file.file, file.targetFormat, onProgress)
-          break
-        default:
-          throw new Error(`Conversion not supported for ${category}`)
-      }
-
-      // Create download URL
-      const downloadUrl = URL.createObjectURL(convertedBlob)
-
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { 
-          ...f, 
-          status: 'completed' as const, 
-          progress: 100,
-          downloadUrl 
-        } : f
-      ))
-
-      toast.success(`${file.file.name} converted successfully!`)
-
+      previewFolder(await readDirectoryHandle(await window.showDirectoryPicker()))
     } catch (error) {
-      console.error('Conversion error:', error)
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { 
-          ...f, 
-          status: 'error' as const, 
-          error: error instanceof Error ? error.message : 'Conversion failed'
-        } : f
-      ))
-      toast.error(`Failed to convert ${file.file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      if (isAbortError(error)) return
+      console.error('Folder read error:', error)
+      toast.error('Could not read the chosen folder')
     }
   }
 
-  const convertAll = async () => {
-    const pendingFiles = files.filter(f => f.status === 'pending')
-    for (const file of pendingFiles) {
-      await convertFile(file.id)
-    }
+  const updateFileFormat = (file: ConversionJob, newFormat: string) => {
+    scheduler.update(file.id, {
+      targetFormat: newFormat,
+      // The new route may pass through converters with options of their own
+      options: {
+        ...getDefaultOptions(getPlanOptions(planConversion(file.originalFormat, newFormat, browserSupportRef.current))),
+        ...file.options
+      }
+    })
+  }
+
+  const updateFileOptions = (file: ConversionJob, options: Partial<OptionValues>) => {
+    scheduler.update(file.id, { options: { ...file.options, ...options } as OptionValues })
   }
 
   const clearAll = () => {
-    setFiles([])
+    scheduler.clear()
     toast.success('All files cleared')
   }
 
-  const downloadFile = (file: ConversionFile) => {
-    if (file.downloadUrl) {
-      const a = document.createElement('a')
-      a.href = file.downloadUrl
-      a.download = `${file.file.name.split('.')[0]}.${file.targetFormat}`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
+  const convertAgain = async (entry: HistoryEntry) => {
+    const source = await loadBlob(sourceBlobId(entry.jobId))
+    if (!source) {
+      toast.error(`The source of ${entry.fileName} is no longer stored`)
+      return
     }
+    if (!planConversion(entry.originalFormat, entry.targetFormat, browserSupportRef.current)) {
+      toast.error(`This browser cannot convert ${entry.originalFormat} to ${entry.targetFormat}`)
+      return
+    }
+
+    const [job] = scheduler.add([{
+      file: new File([source], entry.fileName, { type: entry.fileType, lastModified: entry.lastModified }),
+      path: entry.path,
+      originalFormat: entry.originalFormat,
+      targetFormat: entry.targetFormat,
+      options: entry.options,
+      category: entry.category
+    }])
+    scheduler.enqueue(job.id)
+    navigate('/')
+    toast.success(`Converting ${entry.fileName} to ${entry.targetFormat.toUpperCase()} again`)
   }
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+  const namePreview = files.length > 0 && renderNameTemplate(nameTemplate.template, {
+    name: getBaseName(files[0].file.name),
+    ext: files[0].targetFormat,
+    index: 1,
+    date: new Date(),
+    width: 1920,
+    height: 1080,
+    preset: describeOptions(files[0].options, getJobDefaults(files[0], browserSupport)),
+    hash8: '3f9a0c1d'
+  })
+
+  const chooseOutputDirectory = () =>
+    outputDirectory.choose().catch(error => {
+      console.error('Folder picker error:', error)
+      toast.error('Could not open the chosen folder')
+    })
+
+  const reconnectOutputDirectory = () =>
+    outputDirectory.reconnect().then(granted => {
+      if (!granted) toast.error(`No permission to write to ${outputDirectory.handle?.name}`)
+    })
+
+  const downloadAll = async () => {
+    const entries = getArchiveEntries(files, archiveLayout, archiveCompression)
+    if (!entries.length) return
+
+    setArchiving(true)
+    try {
+      const saved = await saveStream(createZipStream(entries), 'converted-files.zip', {
+        description: 'ZIP archive',
+        accept: { 'application/zip': ['.zip'] }
+      })
+      if (saved) toast.success(`Saved ${entries.length} file(s) as a ZIP`)
+    } catch (error) {
+      console.error('Archive error:', error)
+      toast.error(`Failed to create the ZIP: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setArchiving(false)
+    }
+  }
+
+  const downloadOutput = (output: JobOutput) => {
+    if (output.url) downloadUrl(output.url, output.name)
   }
 
   return (
@@ -255,247 +453,563 @@ function App() {
               Convert files between different formats including video, image, document, and audio files. 
               Fast, secure, and easy to use.
             </p>
+            <nav className="flex justify-center gap-2 mt-4">
+              <Button variant="ghost" asChild>
+                <NavLink to="/" end className={({ isActive }) => isActive ? 'bg-accent' : ''}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Convert
+                </NavLink>
+              </Button>
+              <Button variant="ghost" asChild>
+                <NavLink to="/history" className={({ isActive }) => isActive ? 'bg-accent' : ''}>
+                  <History className="w-4 h-4 mr-2" />
+                  History
+                </NavLink>
+              </Button>
+            </nav>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Upload Section */}
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Upload className="w-5 h-5" />
-              Upload Files
-            </CardTitle>
-            <CardDescription>
-              Drag and drop files or click to browse. Supports 20+ file formats.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div
-              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-                dragActive 
-                  ? 'border-primary bg-primary/5' 
-                  : 'border-muted-foreground/25 hover:border-primary/50'
-              }`}
-              onDragEnter={handleDrag}
-              onDragLeave={handleDrag}
-              onDragOver={handleDrag}
-              onDrop={handleDrop}
-            >
-              <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-lg font-medium mb-2">
-                Drop files here or click to browse
-              </p>
-              <p className="text-sm text-muted-foreground mb-4">
-                Supports images, videos, documents, and audio files
-              </p>
-              <Button 
-                onClick={() => fileInputRef.current?.click()}
-                className="mb-4"
-              >
-                Choose Files
-              </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                onChange={handleFileInput}
-                className="hidden"
-                accept=".jpg,.jpeg,.png,.gif,.bmp,.webp,.tiff,.svg,.mp4,.avi,.mov,.wmv,.flv,.mkv,.webm,.m4v,.mp3,.wav,.flac,.aac,.ogg,.m4a,.wma,.pdf,.doc,.docx,.txt,.rtf,.odt"
-              />
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Supported Formats */}
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle>Supported Formats</CardTitle>
-            <CardDescription>
-              We support conversion between these popular file formats
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Tabs defaultValue="image" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
-                <TabsTrigger value="image" className="flex items-center gap-2">
-                  <Image className="w-4 h-4" />
-                  Images
-                </TabsTrigger>
-                <TabsTrigger value="video" className="flex items-center gap-2">
-                  <Video className="w-4 h-4" />
-                  Videos
-                </TabsTrigger>
-                <TabsTrigger value="audio" className="flex items-center gap-2">
-                  <Music className="w-4 h-4" />
-                  Audio
-                </TabsTrigger>
-                <TabsTrigger value="document" className="flex items-center gap-2">
-                  <FileText className="w-4 h-4" />
-                  Documents
-                </TabsTrigger>
-              </TabsList>
+        <Routes>
+          <Route
+            path="/history"
+            element={<ConversionHistory onConvertAgain={convertAgain} />}
+          />
+          <Route path="*" element={
+            <>
+            {/* Upload Section */}
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Upload className="w-5 h-5" />
+                  Upload Files
+                </CardTitle>
+                <CardDescription>
+                  Drag and drop files or click to browse. Supports 20+ file formats.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div
+                  className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                    dragActive 
+                      ? 'border-primary bg-primary/5' 
+                      : 'border-muted-foreground/25 hover:border-primary/50'
+                  }`}
+                  onDragEnter={handleDrag}
+                  onDragLeave={handleDrag}
+                  onDragOver={handleDrag}
+                  onDrop={handleDrop}
+                >
+                  <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-lg font-medium mb-2">
+                    Drop files or folders here, or click to browse
+                  </p>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Supports images, videos, documents, and audio files
+                  </p>
+                  <div className="flex justify-center gap-2 mb-4">
+                    <Button onClick={() => fileInputRef.current?.click()}>
+                      Choose Files
+                    </Button>
+                    <Button variant="outline" onClick={chooseFolder}>
+                      <FolderOpen className="w-4 h-4 mr-2" />
+                      Choose Folder
+                    </Button>
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    onChange={handleFileInput}
+                    className="hidden"
+                    accept={getAcceptedExtensions()}
+                  />
+                  <input
+                    ref={input => {
+                      folderInputRef.current = input
+                      // Not in React's attribute types; picks a folder where showDirectoryPicker is missing
+                      input?.setAttribute('webkitdirectory', '')
+                    }}
+                    type="file"
+                    onChange={handleFolderInput}
+                    className="hidden"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Supported Formats */}
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle>Supported Formats</CardTitle>
+                <CardDescription>
+                  We support conversion between these popular file formats
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="image" className="w-full">
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="image" className="flex items-center gap-2">
+                      <Image className="w-4 h-4" />
+                      Images
+                    </TabsTrigger>
+                    <TabsTrigger value="video" className="flex items-center gap-2">
+                      <Video className="w-4 h-4" />
+                      Videos
+                    </TabsTrigger>
+                    <TabsTrigger value="audio" className="flex items-center gap-2">
+                      <Music className="w-4 h-4" />
+                      Audio
+                    </TabsTrigger>
+                    <TabsTrigger value="document" className="flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      Documents
+                    </TabsTrigger>
+                  </TabsList>
               
-              {Object.entries(SUPPORTED_FORMATS).map(([category, formats]) => (
-                <TabsContent key={category} value={category} className="mt-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <h4 className="font-medium mb-2">Input Formats</h4>
-                      <div className="flex flex-wrap gap-2">
-                        {formats.input.map(format => (
-                          <Badge key={format} variant="secondary">
-                            .{format}
-                          </Badge>
-                        ))}
+                  {FORMAT_CATEGORIES.map(category => ({ category, formats: getCategoryFormats(category, browserSupport) })).map(({ category, formats }) => (
+                    <TabsContent key={category} value={category} className="mt-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <h4 className="font-medium mb-2">Input Formats</h4>
+                          <div className="flex flex-wrap gap-2">
+                            {formats.input.map(format => (
+                              <Badge key={format} variant="secondary">
+                                .{format}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                        <div>
+                          <h4 className="font-medium mb-2">Output Formats</h4>
+                          <div className="flex flex-wrap gap-2">
+                            {formats.output.map(format => (
+                              <Badge key={format} variant="outline">
+                                .{format}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            {/* Conversion Queue */}
+            {files.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
                     <div>
-                      <h4 className="font-medium mb-2">Output Formats</h4>
-                      <div className="flex flex-wrap gap-2">
-                        {formats.output.map(format => (
-                          <Badge key={format} variant="outline">
-                            .{format}
-                          </Badge>
-                        ))}
-                      </div>
+                      <CardTitle className="flex items-center gap-2">
+                        <RefreshCw className="w-5 h-5" />
+                        Conversion Queue ({files.length})
+                      </CardTitle>
+                      <CardDescription>
+                        Manage your file conversions
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button 
+                        onClick={() => scheduler.enqueueAll()}
+                        disabled={files.every(f => f.status !== 'pending')}
+                      >
+                        Convert All
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => queue.paused ? scheduler.resume() : scheduler.pause()}
+                      >
+                        {queue.paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                        {queue.paused ? 'Resume' : 'Pause'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={downloadAll}
+                        disabled={archiving || !files.some(f => f.outputs.some(output => output.blob))}
+                      >
+                        <Archive className="w-4 h-4 mr-2" />
+                        {archiving ? 'Zipping...' : 'Download All'}
+                      </Button>
+                      <Button variant="outline" onClick={clearAll}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Clear All
+                      </Button>
                     </div>
                   </div>
-                </TabsContent>
-              ))}
-            </Tabs>
-          </CardContent>
-        </Card>
-
-        {/* Conversion Queue */}
-        {files.length > 0 && (
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle className="flex items-center gap-2">
-                    <RefreshCw className="w-5 h-5" />
-                    Conversion Queue ({files.length})
-                  </CardTitle>
-                  <CardDescription>
-                    Manage your file conversions
-                  </CardDescription>
-                </div>
-                <div className="flex gap-2">
-                  <Button 
-                    onClick={convertAll}
-                    disabled={files.every(f => f.status !== 'pending')}
-                  >
-                    Convert All
-                  </Button>
-                  <Button variant="outline" onClick={clearAll}>
-                    <Trash2 className="w-4 h-4 mr-2" />
-                    Clear All
-                  </Button>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {files.map((file) => {
-                  const category = getFileCategory(file.originalFormat)
-                  const availableFormats = category ? SUPPORTED_FORMATS[category].output : []
-                  
-                  return (
-                    <div key={file.id} className="border rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-3">
-                          {getFileIcon(file.originalFormat)}
-                          <div>
-                            <p className="font-medium">{file.file.name}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {formatFileSize(file.file.size)} • {file.originalFormat.toUpperCase()}
-                            </p>
-                          </div>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeFile(file.id)}
-                        >
+                  {overall.total > 0 && overall.done < overall.total && (
+                    <div className="space-y-2 pt-4">
+                      <Progress value={overall.progress} className="w-full" />
+                      <p className="text-sm text-muted-foreground">
+                        {overall.done} of {overall.total} files done • {overall.progress}% overall
+                        {queue.paused && ' • Paused'}
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-4 pt-4">
+                    <span className="text-sm text-muted-foreground">Run in parallel:</span>
+                    {FORMAT_CATEGORIES.map(category => (
+                      <label key={category} className="flex items-center gap-2 text-sm capitalize">
+                        {category}
+                        <Input
+                          type="number"
+                          min={1}
+                          max={8}
+                          value={queue.concurrency[category]}
+                          onChange={(e) => {
+                            const limit = parseInt(e.target.value, 10)
+                            if (limit > 0) scheduler.setConcurrency(category, limit)
+                          }}
+                          className="w-16"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 pt-4 text-sm">
+                    <span className="text-muted-foreground">Save to folder:</span>
+                    {!supportsOutputDirectory() ? (
+                      <span className="text-muted-foreground">
+                        Not available in this browser; use Download instead
+                      </span>
+                    ) : outputDirectory.handle ? (
+                      <>
+                        <span className="flex items-center gap-1 font-medium">
+                          <FolderOpen className="w-4 h-4" />
+                          {outputDirectory.handle.name}
+                        </span>
+                        {!outputDirectory.writable && (
+                          <Button size="sm" onClick={reconnectOutputDirectory}>
+                            Allow access
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={chooseOutputDirectory}>
+                          Change
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={outputDirectory.clear}>
                           <X className="w-4 h-4" />
                         </Button>
-                      </div>
-
-                      <div className="flex items-center gap-4 mb-3">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm">Convert to:</span>
+                        <label className="flex items-center gap-2">
+                          If a file exists
                           <Select
-                            value={file.targetFormat}
-                            onValueChange={(value) => updateFileFormat(file.id, value)}
-                            disabled={file.status === 'converting'}
+                            value={outputDirectory.policy}
+                            onValueChange={value => outputDirectory.setPolicy(value as CollisionPolicy)}
                           >
-                            <SelectTrigger className="w-24">
+                            <SelectTrigger className="w-36">
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              {availableFormats.map(format => (
-                                <SelectItem key={format} value={format}>
-                                  .{format}
-                                </SelectItem>
+                              {COLLISION_POLICIES.map(policy => (
+                                <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
-                        </div>
-
-                        <div className="flex items-center gap-2">
-                          {file.status === 'pending' && (
-                            <Button 
-                              size="sm" 
-                              onClick={() => convertFile(file.id)}
+                        </label>
+                      </>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={chooseOutputDirectory}>
+                        <FolderOpen className="w-4 h-4 mr-2" />
+                        Choose output folder
+                      </Button>
+                    )}
+                  </div>
+                  <div className="space-y-2 pt-4 text-sm">
+                    <div className="flex flex-wrap items-center gap-4">
+                      <span className="text-muted-foreground">File names:</span>
+                      <Input
+                        value={nameTemplate.template}
+                        onChange={e => nameTemplate.setTemplate(e.target.value)}
+                        placeholder={DEFAULT_NAME_TEMPLATE}
+                        className="w-72"
+                      />
+                      {namePreview && (
+                        <span>
+                          <span className="text-muted-foreground">Preview: </span>
+                          {namePreview}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {NAME_TOKENS.map(({ token, description }) => (
+                        <Badge
+                          key={token}
+                          variant="outline"
+                          className="cursor-pointer"
+                          title={description}
+                          onClick={() => nameTemplate.setTemplate(nameTemplate.template + token)}
+                        >
+                          {token}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 pt-4 text-sm">
+                    <span className="text-muted-foreground">ZIP download:</span>
+                    <label className="flex items-center gap-2">
+                      Folders
+                      <Select value={archiveLayout} onValueChange={value => setArchiveLayout(value as ArchiveLayout)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ARCHIVE_LAYOUTS.map(layout => (
+                            <SelectItem key={layout.value} value={layout.value}>{layout.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Compression
+                      <Select value={archiveCompression} onValueChange={value => setArchiveCompression(value as ArchiveCompression)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ARCHIVE_COMPRESSIONS.map(compression => (
+                            <SelectItem key={compression.value} value={compression.value}>{compression.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </label>
+                  </div>
+                  {storage && (
+                    <div className="flex items-center gap-2 pt-4 text-sm text-muted-foreground">
+                      <HardDrive className="w-4 h-4" />
+                      <span>
+                        Storage: {formatFileSize(storage.usage)} of {formatFileSize(storage.quota)} used
+                      </span>
+                      <Progress value={(storage.usage / storage.quota) * 100} className="w-32" />
+                      <span className="text-xs">Outputs older than 7 days or beyond the quota are removed first</span>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {files.map((file) => {
+                      const availableFormats = getOutputFormats(file.originalFormat, browserSupport)
+                      const plan = planConversion(file.originalFormat, file.targetFormat, browserSupport)
+                      const planOptions = getPlanOptions(plan)
+                  
+                      return (
+                        <div key={file.id} className="border rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center gap-3">
+                              {getFileIcon(file.originalFormat)}
+                              <div>
+                                <p className="font-medium">{file.file.name}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {formatFileSize(file.file.size)} • {file.originalFormat.toUpperCase()}
+                                  {file.path && file.path !== file.file.name && ` • ${file.path}`}
+                                </p>
+                              </div>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => scheduler.remove(file.id)}
                             >
-                              Convert
+                              <X className="w-4 h-4" />
                             </Button>
-                          )}
-                          {file.status === 'converting' && (
+                          </div>
+
+                          <div className="flex flex-wrap items-center gap-4 mb-3">
                             <div className="flex items-center gap-2">
-                              <RefreshCw className="w-4 h-4 animate-spin" />
-                              <span className="text-sm">Converting...</span>
+                              <span className="text-sm">Convert to:</span>
+                              <Select
+                                value={file.targetFormat}
+                                onValueChange={(value) => updateFileFormat(file, value)}
+                                disabled={file.status === 'converting'}
+                              >
+                                <SelectTrigger className="w-24">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {availableFormats.map(format => (
+                                    <SelectItem key={format} value={format}>
+                                      .{format}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                             </div>
-                          )}
-                          {file.status === 'completed' && (
+
+                            {plan && plan.steps.length > 1 && (
+                              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                <span>Route:</span>
+                                {[plan.from, ...plan.steps.map(step => step.to)].map((format, index) => (
+                                  <span key={index} className="flex items-center gap-1">
+                                    {index > 0 && <ArrowRight className="w-3 h-3" />}
+                                    <Badge variant="outline">.{format}</Badge>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+
+                            {planOptions.length > 0 && (
+                              <ConverterOptions
+                                options={planOptions}
+                                values={file.options}
+                                onChange={(values) => updateFileOptions(file, values)}
+                                disabled={file.status === 'converting'}
+                              />
+                            )}
+
+                            {(file.status === 'pending' || file.status === 'queued') && (
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm">Priority:</span>
+                                <Select
+                                  value={file.priority}
+                                  onValueChange={(value) => scheduler.update(file.id, { priority: value as JobPriority })}
+                                >
+                                  <SelectTrigger className="w-24">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="high">High</SelectItem>
+                                    <SelectItem value="normal">Normal</SelectItem>
+                                    <SelectItem value="low">Low</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+
                             <div className="flex items-center gap-2">
-                              <CheckCircle className="w-4 h-4 text-green-500" />
-                              <Button 
-                                size="sm" 
-                                onClick={() => downloadFile(file)}
-                              >
-                                <Download className="w-4 h-4 mr-2" />
-                                Download
-                              </Button>
+                              {file.status === 'pending' && (
+                                <Button 
+                                  size="sm" 
+                                  onClick={() => scheduler.enqueue(file.id)}
+                                >
+                                  Convert
+                                </Button>
+                              )}
+                              {file.status === 'queued' && (
+                                <div className="flex items-center gap-2">
+                                  <Clock className="w-4 h-4" />
+                                  <span className="text-sm">Queued</span>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => scheduler.cancel(file.id)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              )}
+                              {file.status === 'converting' && (
+                                <div className="flex items-center gap-2">
+                                  <RefreshCw className="w-4 h-4 animate-spin" />
+                                  <span className="text-sm">Converting...</span>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => scheduler.cancel(file.id)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              )}
+                              {file.status === 'completed' && (
+                                <div className="flex items-center gap-2">
+                                  <CheckCircle className="w-4 h-4 text-green-500" />
+                                  <Button 
+                                    size="sm" 
+                                    variant="outline"
+                                    onClick={() => scheduler.enqueue(file.id)}
+                                  >
+                                    <RotateCcw className="w-4 h-4 mr-2" />
+                                    Convert again
+                                  </Button>
+                                </div>
+                              )}
+                              {file.status === 'error' && (
+                                <div className="flex items-center gap-2">
+                                  <AlertCircle className="w-4 h-4 text-red-500" />
+                                  <span className="text-sm text-red-500">Error</span>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => scheduler.enqueue(file.id)}
+                                  >
+                                    <RotateCcw className="w-4 h-4 mr-2" />
+                                    Retry
+                                  </Button>
+                                </div>
+                              )}
                             </div>
+                          </div>
+
+                          {file.status === 'error' && file.error && (
+                            <p className="text-sm text-red-500 mb-3">{file.error}</p>
                           )}
-                          {file.status === 'error' && (
-                            <div className="flex items-center gap-2">
-                              <AlertCircle className="w-4 h-4 text-red-500" />
-                              <span className="text-sm text-red-500">Error</span>
+
+                          {file.status === 'queued' && file.retryAt !== undefined && (
+                            <p className="text-sm text-muted-foreground mb-3">
+                              Attempt {file.attempt} failed ({file.error}). Retrying with a backoff...
+                            </p>
+                          )}
+
+                          {file.outputs.length > 0 && (
+                            <div className="space-y-2 mb-3">
+                              {file.outputs.map(output => (
+                                <div key={output.id} className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-3 py-2">
+                                  <span className="text-sm">
+                                    {output.name} • {formatFileSize(output.size)}
+                                  </span>
+                                  <div className="flex items-center gap-1">
+                                    {output.url ? (
+                                      <Button size="sm" onClick={() => downloadOutput(output)}>
+                                        <Download className="w-4 h-4 mr-2" />
+                                        Download
+                                      </Button>
+                                    ) : (
+                                      <span className="text-xs text-muted-foreground">Removed to free space</span>
+                                    )}
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => scheduler.removeOutput(file.id, output.id)}
+                                    >
+                                      <X className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              ))}
                             </div>
                           )}
-                        </div>
-                      </div>
 
-                      {file.status === 'converting' && (
-                        <div className="space-y-2">
-                          <Progress value={file.progress} className="w-full" />
-                          <p className="text-sm text-muted-foreground">
-                            {file.progress}% complete
-                          </p>
+                          {file.status === 'converting' && (
+                            <div className="space-y-2">
+                              <Progress value={file.progress} className="w-full" />
+                              <p className="text-sm text-muted-foreground">
+                                {file.step && `Step ${file.step.index + 1} of ${file.step.count} (.${file.step.from} → .${file.step.to}) • `}
+                                {file.progress}% complete
+                              </p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  )
-                })}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+                      )
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            </>
+          } />
+        </Routes>
       </main>
 
+      <FolderPreview
+        files={folderFiles}
+        onConfirm={picked => {
+          setFolderFiles(null)
+          handleFiles(picked)
+        }}
+        onCancel={() => setFolderFiles(null)}
+      />
+
       {/* Footer */}
       <footer className="border-t mt-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react'
+import { ArrowRight, Download, History, RotateCcw, Search, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import type { FormatCategory } from '../converters'
+import { useHistory } from '../hooks/use-history'
+import { loadBlob } from '../storage/blobStore'
+import { deleteHistory, type HistoryEntry } from '../storage/historyStore'
+import { FORMAT_CATEGORIES } from '../utils/capabilities'
+import { downloadBlob } from '../utils/download'
+import { formatDuration, formatFileSize } from '../utils/format'
+
+interface ConversionHistoryProps {
+  onConvertAgain: (entry: HistoryEntry) => void
+}
+
+const downloadEntry = async (entry: HistoryEntry) => {
+  const blob = await loadBlob(entry.id)
+  if (!blob) {
+    toast.error(`${entry.outputName} is no longer stored`)
+    return
+  }
+  downloadBlob(blob, entry.outputName)
+}
+
+const removeEntries = (ids?: string[]) =>
+  deleteHistory(ids).catch(error => {
+    console.error('Failed to update history:', error)
+    toast.error('Could not update the history')
+  })
+
+/** Past conversions, searchable and filterable, with their kept files */
+export function ConversionHistory({ onConvertAgain }: ConversionHistoryProps) {
+  const history = useHistory()
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState<FormatCategory | 'all'>('all')
+
+  const entries = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return (history ?? []).filter(entry =>
+      (category === 'all' || entry.category === category) &&
+      (!query || entry.fileName.toLowerCase().includes(query) || entry.outputName.toLowerCase().includes(query))
+    )
+  }, [history, search, category])
+
+  const totals = useMemo(() => entries.reduce(
+    (sum, entry) => ({
+      source: sum.source + entry.sourceSize,
+      output: sum.output + entry.outputSize,
+      duration: sum.duration + entry.duration
+    }),
+    { source: 0, output: 0, duration: 0 }
+  ), [entries])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Conversion History
+            </CardTitle>
+            <CardDescription>
+              Every finished conversion, kept after the queue is cleared
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => removeEntries()} disabled={!history?.length}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear History
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 pt-4">
+          <div className="relative flex-1 min-w-48">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search by file name"
+              className="pl-9"
+            />
+          </div>
+          <Select value={category} onValueChange={value => setCategory(value as FormatCategory | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {FORMAT_CATEGORIES.map(name => (
+                <SelectItem key={name} value={name} className="capitalize">
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {entries.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Conversions</p>
+              <p className="text-lg font-medium">{entries.length}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Converted from</p>
+              <p className="text-lg font-medium">{formatFileSize(totals.source)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Converted to</p>
+              <p className="text-lg font-medium">{formatFileSize(totals.output)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Average time</p>
+              <p className="text-lg font-medium">{formatDuration(totals.duration / entries.length)}</p>
+            </div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {history === null ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {history.length ? 'No conversions match your search' : 'Finished conversions will appear here'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex flex-wrap items-center justify-between gap-4 border rounded-lg p-4">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{entry.fileName}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant="outline">{entry.originalFormat.toUpperCase()}</Badge>
+                    <ArrowRight className="w-3 h-3" />
+                    <Badge variant="outline">{entry.targetFormat.toUpperCase()}</Badge>
+                    <span>
+                      {formatFileSize(entry.sourceSize)} → {formatFileSize(entry.outputSize)}
+                    </span>
+                    <span>• {formatDuration(entry.duration)}</span>
+                    <span>• {new Date(entry.completedAt).toLocaleString()}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {entry.outputEvicted ? (
+                    <span className="text-xs text-muted-foreground">Removed to free space</span>
+                  ) : (
+                    <Button size="sm" onClick={() => downloadEntry(entry)}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onConvertAgain(entry)}
+                    disabled={entry.sourceEvicted}
+                    title={entry.sourceEvicted ? 'The source file is no longer stored' : undefined}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Convert again
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeEntries([entry.id])}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import type { ConverterOption, OptionValues } from '../converters'
+
+interface ConverterOptionsProps {
+  options: ConverterOption[]
+  values: OptionValues
+  disabled?: boolean
+  onChange: (values: Partial<OptionValues>) => void
+}
+
+/** Renders a converter's options schema as inline form fields */
+export function ConverterOptions({ options, values, disabled, onChange }: ConverterOptionsProps) {
+  return (
+    <>
+      {options
+        .filter(option => !option.visibleWhen || option.visibleWhen(values))
+        .map(option => (
+          <div key={option.key} className="flex items-center gap-2">
+            <span className="text-sm">{option.label}:</span>
+            {option.type === 'select' ? (
+              <Select
+                value={String(values[option.key] ?? option.default)}
+                onValueChange={(value) => onChange({ [option.key]: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {option.choices.map(choice => (
+                    <SelectItem key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type="number"
+                min={option.min}
+                max={option.max}
+                step={option.step}
+                value={values[option.key] ?? option.default}
+                onChange={(e) => {
+                  const value = Number(e.target.value)
+                  if (!Number.isNaN(value)) {
+                    onChange({ [option.key]: value })
+                  }
+                }}
+                disabled={disabled}
+                className="w-20"
+              />
+            )}
+          </div>
+        ))}
+    </>
+  )
+}
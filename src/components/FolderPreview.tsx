@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, FileIcon, Folder } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { ScrollArea } from './ui/scroll-area'
+import { isArchiveFormat } from '../utils/archives'
+import { getInputCategory } from '../utils/capabilities'
+import type { PickedFile } from '../utils/folders'
+import { formatFileSize } from '../utils/format'
+import { getExtension } from '../utils/sniff'
+
+interface FolderPreviewProps {
+  /** The files to review; the dialog is open while this is set */
+  files: PickedFile[] | null
+  onConfirm: (files: PickedFile[]) => void
+  onCancel: () => void
+}
+
+interface TreeNode {
+  name: string
+  path: string
+  folders: Map<string, TreeNode>
+  files: PickedFile[]
+}
+
+const MB = 1024 * 1024
+
+const isConvertible = (extension: string) => !!getInputCategory(extension) || isArchiveFormat(extension)
+
+function buildTree(files: PickedFile[]): TreeNode {
+  const root: TreeNode = { name: '', path: '', folders: new Map(), files: [] }
+  for (const picked of files) {
+    const parts = picked.path.split('/')
+    let node = root
+    for (const part of parts.slice(0, -1)) {
+      let child = node.folders.get(part)
+      if (!child) {
+        child = { name: part, path: node.path ? `${node.path}/${part}` : part, folders: new Map(), files: [] }
+        node.folders.set(part, child)
+      }
+      node = child
+    }
+    node.files.push(picked)
+  }
+  return root
+}
+
+const countFiles = (node: TreeNode, included: Set<PickedFile>): { included: number; total: number } =>
+  [...node.folders.values()].reduce(
+    (sum, folder) => {
+      const counts = countFiles(folder, included)
+      return { included: sum.included + counts.included, total: sum.total + counts.total }
+    },
+    { included: node.files.filter(file => included.has(file)).length, total: node.files.length }
+  )
+
+/** Shows a dropped or picked folder as a tree and lets the user filter it before anything is queued */
+export function FolderPreview({ files, onConfirm, onCancel }: FolderPreviewProps) {
+  const [excluded, setExcluded] = useState<Set<string> | null>(null)
+  const [minSize, setMinSize] = useState('')
+  const [maxSize, setMaxSize] = useState('')
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const extensions = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const { file } of files ?? []) {
+      const extension = getExtension(file.name)
+      counts.set(extension, (counts.get(extension) ?? 0) + 1)
+    }
+    return [...counts].sort(([a], [b]) => a.localeCompare(b))
+  }, [files])
+
+  // Until the user changes them, the filters leave out formats nothing can convert
+  const excludedExtensions = useMemo(
+    () => excluded ?? new Set(extensions.map(([extension]) => extension).filter(extension => !isConvertible(extension))),
+    [excluded, extensions]
+  )
+
+  const included = useMemo(() => {
+    const min = parseFloat(minSize) * MB
+    const max = parseFloat(maxSize) * MB
+    return new Set(
+      (files ?? []).filter(({ file }) =>
+        !excludedExtensions.has(getExtension(file.name)) &&
+        !(file.size < min) &&
+        !(file.size > max)
+      )
+    )
+  }, [files, excludedExtensions, minSize, maxSize])
+
+  const tree = useMemo(() => buildTree(files ?? []), [files])
+
+  const toggleExtension = (extension: string) => {
+    const next = new Set(excludedExtensions)
+    if (next.has(extension)) {
+      next.delete(extension)
+    } else {
+      next.add(extension)
+    }
+    setExcluded(next)
+  }
+
+  const toggleFolder = (path: string) => {
+    const next = new Set(collapsed)
+    if (next.has(path)) {
+      next.delete(path)
+    } else {
+      next.add(path)
+    }
+    setCollapsed(next)
+  }
+
+  const resetFilters = () => {
+    setExcluded(null)
+    setMinSize('')
+    setMaxSize('')
+    setCollapsed(new Set())
+  }
+
+  const renderNode = (node: TreeNode, depth: number) => (
+    <>
+      {[...node.folders.values()].map(folder => {
+        const counts = countFiles(folder, included)
+        const isCollapsed = collapsed.has(folder.path)
+        return (
+          <div key={folder.path}>
+            <button
+              type="button"
+              className="flex items-center gap-1 py-1 text-sm font-medium hover:text-primary"
+              style={{ paddingLeft: depth * 16 }}
+              onClick={() => toggleFolder(folder.path)}
+            >
+              {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              <Folder className="w-4 h-4" />
+              {folder.name}
+              <span className="text-muted-foreground font-normal">
+                ({counts.included} of {counts.total})
+              </span>
+            </button>
+            {!isCollapsed && renderNode(folder, depth + 1)}
+          </div>
+        )
+      })}
+      {node.files.map(picked => (
+        <div
+          key={picked.path}
+          className={`flex items-center gap-2 py-1 text-sm ${included.has(picked) ? '' : 'text-muted-foreground line-through'}`}
+          style={{ paddingLeft: depth * 16 + 20 }}
+        >
+          <FileIcon className="w-4 h-4 shrink-0" />
+          <span className="truncate">{picked.file.name}</span>
+          <span className="text-muted-foreground shrink-0">{formatFileSize(picked.file.size)}</span>
+        </div>
+      ))}
+    </>
+  )
+
+  return (
+    <Dialog
+      open={files !== null}
+      onOpenChange={open => {
+        if (!open) {
+          resetFilters()
+          onCancel()
+        }
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add folder</DialogTitle>
+          <DialogDescription>
+            {included.size} of {files?.length ?? 0} files selected. Click an extension to include or exclude it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {extensions.map(([extension, count]) => (
+              <Badge
+                key={extension}
+                variant={excludedExtensions.has(extension) ? 'outline' : 'default'}
+                className="cursor-pointer"
+                onClick={() => toggleExtension(extension)}
+              >
+                {extension ? `.${extension}` : 'no extension'} ({count})
+              </Badge>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Size from</span>
+            <Input
+              type="number"
+              min={0}
+              value={minSize}
+              onChange={e => setMinSize(e.target.value)}
+              placeholder="0"
+              className="w-24"
+            />
+            <span>to</span>
+            <Input
+              type="number"
+              min={0}
+              value={maxSize}
+              onChange={e => setMaxSize(e.target.value)}
+              placeholder="any"
+              className="w-24"
+            />
+            <span>MB</span>
+          </div>
+          <ScrollArea className="h-72 rounded-md border p-2">
+            {renderNode(tree, 0)}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetFilters()
+              onCancel()
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!included.size}
+            onClick={() => {
+              const selected = (files ?? []).filter(file => included.has(file))
+              resetFilters()
+              onConfirm(selected)
+            }}
+          >
+            Add {included.size} file(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,276 @@
+import { fileConverter } from '../utils/fileConverter'
+import { DEFAULT_PDF_DPI } from '../utils/pdfRenderer'
+import type { TiffCompression } from '../utils/tiff'
+import type { Converter } from './types'
+
+const canvasEncoder = (mimeType: string) => `canvas:${mimeType}`
+const mediaRecorder = (mimeType: string) => `recorder:${mimeType}`
+
+export const imageConverter: Converter = {
+  id: 'builtin.image',
+  label: 'Canvas image encoder',
+  category: 'image',
+  inputs: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'tiff', 'svg', 'heic', 'heif', 'avif'],
+  outputs: ['jpg', 'jpeg', 'png', 'webp'],
+  requires: {
+    jpg: canvasEncoder('image/jpeg'),
+    jpeg: canvasEncoder('image/jpeg'),
+    png: canvasEncoder('image/png'),
+    webp: canvasEncoder('image/webp'),
+  },
+  convert: (file, _options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertImage(file, targetFormat, onProgress, {}, signal),
+}
+
+export const gifEncoder: Converter = {
+  id: 'builtin.gif',
+  label: 'GIF encoder',
+  category: 'image',
+  inputs: imageConverter.inputs,
+  outputs: ['gif'],
+  options: [
+    {
+      key: 'colors',
+      label: 'Colors',
+      type: 'number',
+      min: 2,
+      max: 256,
+      default: 256,
+    },
+    {
+      key: 'dither',
+      label: 'Dither',
+      type: 'select',
+      choices: [
+        { value: 'on', label: 'Dithered' },
+        { value: 'off', label: 'Flat' },
+      ],
+      default: 'on',
+    },
+  ],
+  convert: (file, options, { onProgress, signal }) =>
+    fileConverter.convertImage(
+      file,
+      'gif',
+      onProgress,
+      { raster: { gif: { colors: Number(options.colors) || 256, dither: options.dither !== 'off' } } },
+      signal
+    ),
+}
+
+export const bmpEncoder: Converter = {
+  id: 'builtin.bmp',
+  label: 'BMP encoder',
+  category: 'image',
+  inputs: imageConverter.inputs,
+  outputs: ['bmp'],
+  options: [
+    {
+      key: 'bits',
+      label: 'Depth',
+      type: 'select',
+      choices: [
+        { value: 'auto', label: 'Automatic' },
+        { value: '24', label: '24-bit' },
+        { value: '32', label: '32-bit (alpha)' },
+      ],
+      default: 'auto',
+    },
+  ],
+  convert: (file, options, { onProgress, signal }) =>
+    fileConverter.convertImage(
+      file,
+      'bmp',
+      onProgress,
+      { raster: { bmp: { bitsPerPixel: options.bits === 'auto' ? undefined : (Number(options.bits) as 24 | 32) } } },
+      signal
+    ),
+}
+
+export const tiffEncoder: Converter = {
+  id: 'builtin.tiff',
+  label: 'TIFF encoder',
+  category: 'image',
+  inputs: imageConverter.inputs,
+  outputs: ['tiff'],
+  options: [
+    {
+      key: 'compression',
+      label: 'Compression',
+      type: 'select',
+      choices: [
+        { value: 'lzw', label: 'LZW' },
+        { value: 'packbits', label: 'PackBits' },
+        { value: 'none', label: 'None' },
+      ],
+      default: 'lzw',
+    },
+  ],
+  convert: (file, options, { onProgress, signal }) =>
+    fileConverter.convertImage(
+      file,
+      'tiff',
+      onProgress,
+      { raster: { tiff: { compression: options.compression as TiffCompression } } },
+      signal
+    ),
+}
+
+export const tiffReader: Converter = {
+  id: 'builtin.tiff-pages',
+  label: 'TIFF page reader',
+  category: 'image',
+  inputs: ['tiff'],
+  outputs: ['png', 'jpg', 'pdf'],
+  requires: {
+    png: canvasEncoder('image/png'),
+    jpg: canvasEncoder('image/jpeg'),
+  },
+  options: [
+    {
+      key: 'pages',
+      label: 'Page',
+      type: 'select',
+      choices: [
+        { value: 'single', label: 'Single page' },
+        { value: 'all', label: 'All pages' },
+      ],
+      default: 'single',
+    },
+    {
+      key: 'page',
+      label: 'Number',
+      type: 'number',
+      min: 1,
+      default: 1,
+      visibleWhen: (values) => values.pages !== 'all',
+    },
+  ],
+  convert: (file, options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertTiff(
+      file,
+      targetFormat,
+      onProgress,
+      { tiffPage: options.pages === 'all' ? 'all' : Number(options.page) || 1 },
+      signal
+    ),
+}
+
+export const videoConverter: Converter = {
+  id: 'builtin.video',
+  label: 'MediaRecorder video encoder',
+  category: 'video',
+  inputs: ['mp4', 'avi', 'mov', 'wmv', 'flv', 'mkv', 'webm', 'm4v'],
+  outputs: ['mp4', 'webm', 'mkv'],
+  // MediaRecorder re-encodes in real time
+  cost: 10,
+  requires: {
+    mp4: mediaRecorder('video/mp4'),
+    webm: mediaRecorder('video/webm'),
+    // WebM is a Matroska profile, so a WebM recording is a valid .mkv
+    mkv: mediaRecorder('video/webm'),
+  },
+  convert: (file, _options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertVideo(file, targetFormat, onProgress, signal),
+}
+
+export const audioConverter: Converter = {
+  id: 'builtin.audio',
+  label: 'MediaRecorder audio encoder',
+  category: 'audio',
+  inputs: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a', 'wma'],
+  outputs: ['mp3', 'wav', 'ogg', 'm4a', 'webm'],
+  cost: 5,
+  requires: {
+    mp3: mediaRecorder('audio/mpeg'),
+    wav: mediaRecorder('audio/wav'),
+    ogg: mediaRecorder('audio/ogg'),
+    m4a: mediaRecorder('audio/mp4'),
+    webm: mediaRecorder('audio/webm'),
+  },
+  convert: (file, _options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertAudio(file, targetFormat, onProgress, signal),
+}
+
+export const wavEncoder: Converter = {
+  id: 'builtin.wav',
+  label: 'PCM WAV encoder',
+  category: 'audio',
+  inputs: [...audioConverter.inputs, ...videoConverter.inputs],
+  outputs: ['wav'],
+  convert: (file, _options, { onProgress, signal }) => fileConverter.extractAudioToWav(file, onProgress, signal),
+}
+
+export const documentConverter: Converter = {
+  id: 'builtin.document',
+  label: 'Document reader/writer',
+  category: 'document',
+  inputs: ['docx', 'txt', 'rtf', 'odt', 'md'],
+  outputs: ['pdf', 'docx', 'txt', 'rtf'],
+  convert: (file, _options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertDocument(file, targetFormat, onProgress, {}, signal),
+}
+
+export const pdfRasterizer: Converter = {
+  id: 'builtin.pdf-raster',
+  label: 'PDF page renderer',
+  category: 'document',
+  inputs: ['pdf'],
+  outputs: ['png', 'jpg'],
+  cost: 2,
+  requires: {
+    png: canvasEncoder('image/png'),
+    jpg: canvasEncoder('image/jpeg'),
+  },
+  options: [
+    {
+      key: 'pages',
+      label: 'Page',
+      type: 'select',
+      choices: [
+        { value: 'single', label: 'Single page' },
+        { value: 'all', label: 'All (ZIP)' },
+      ],
+      default: 'single',
+    },
+    {
+      key: 'page',
+      label: 'Number',
+      type: 'number',
+      min: 1,
+      default: 1,
+      visibleWhen: (values) => values.pages !== 'all',
+    },
+    {
+      key: 'dpi',
+      label: 'DPI',
+      type: 'select',
+      choices: [72, 150, 300].map((dpi) => ({ value: String(dpi), label: String(dpi) })),
+      default: String(DEFAULT_PDF_DPI),
+    },
+  ],
+  convert: (file, options, { targetFormat, onProgress, signal }) =>
+    fileConverter.convertDocument(
+      file,
+      targetFormat,
+      onProgress,
+      {
+        pdfPage: options.pages === 'all' ? 'all' : Number(options.page) || 1,
+        dpi: Number(options.dpi) || DEFAULT_PDF_DPI,
+      },
+      signal
+    ),
+}
+
+export const builtinConverters: Converter[] = [
+  imageConverter,
+  gifEncoder,
+  bmpEncoder,
+  tiffEncoder,
+  tiffReader,
+  videoConverter,
+  audioConverter,
+  wavEncoder,
+  documentConverter,
+  pdfRasterizer,
+]
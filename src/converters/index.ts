@@ -0,0 +1,9 @@
+import { builtinConverters } from './builtin'
+import { converterRegistry } from './registry'
+
+builtinConverters.forEach((converter) => converterRegistry.register(converter))
+
+export { converterRegistry, getDefaultOptions, ConverterRegistry } from './registry'
+export { getPlanOptions, getReachableFormats, planConversion, runPlan } from './planner'
+export type { ConversionPlan, ConversionStep } from './planner'
+export type * from './types'
@@ -0,0 +1,147 @@
+import type { BrowserSupport } from '../utils/capabilities'
+import type { ConversionProgress } from '../utils/fileConverter'
+import { converterRegistry } from './registry'
+import type { Converter, ConverterOption, OptionValues } from './types'
+
+/**
+ * Route planning over the converter graph: formats are nodes, each usable
+ * (converter, input, output) triple is an edge weighted by the converter's
+ * cost, and the cheapest path is found with Dijkstra's algorithm.
+ */
+
+export interface ConversionStep {
+  converter: Converter
+  from: string
+  to: string
+}
+
+export interface ConversionPlan {
+  from: string
+  to: string
+  steps: ConversionStep[]
+  cost: number
+}
+
+/** Longer chains compound quality loss and rarely beat a direct route */
+const MAX_STEPS = 4
+
+const isUsable = (converter: Converter, output: string, support?: BrowserSupport | null) => {
+  const requirement = converter.requires?.[output]
+  return !requirement || !support || support[requirement] === true
+}
+
+/** Cheapest route from `from` to every reachable format */
+function shortestRoutes(from: string, support?: BrowserSupport | null): Map<string, ConversionPlan> {
+  const source = from.toLowerCase()
+  // Later registrations come first so they win ties, matching ConverterRegistry.find
+  const converters = converterRegistry.list().reverse()
+  const routes = new Map<string, ConversionPlan>([[source, { from: source, to: source, steps: [], cost: 0 }]])
+  const settled = new Set<string>()
+
+  for (;;) {
+    let current: ConversionPlan | undefined
+    for (const [format, route] of routes) {
+      if (!settled.has(format) && (!current || route.cost < current.cost)) current = route
+    }
+    if (!current) break
+    settled.add(current.to)
+    if (current.steps.length >= MAX_STEPS) continue
+
+    for (const converter of converters) {
+      if (!converter.inputs.includes(current.to)) continue
+      for (const output of converter.outputs) {
+        if (settled.has(output) || !isUsable(converter, output, support)) continue
+        const cost = current.cost + (converter.cost ?? 1)
+        const known = routes.get(output)
+        if (!known || cost < known.cost) {
+          routes.set(output, {
+            from: source,
+            to: output,
+            steps: [...current.steps, { converter, from: current.to, to: output }],
+            cost,
+          })
+        }
+      }
+    }
+  }
+
+  return routes
+}
+
+/** Formats reachable from `from` through one or more steps, cheapest first */
+export const getReachableFormats = (from: string, support?: BrowserSupport | null): string[] =>
+  [...shortestRoutes(from, support).values()]
+    .filter((route) => route.steps.length > 0)
+    .sort((a, b) => a.cost - b.cost)
+    .map((route) => route.to)
+
+/**
+ * The cheapest way to turn `from` into `to`. Converting a format into itself
+ * still needs a converter (e.g. re-encoding a PNG), so that case only uses a
+ * direct edge.
+ */
+export function planConversion(from: string, to: string, support?: BrowserSupport | null): ConversionPlan | null {
+  const source = from.toLowerCase()
+  if (source === to) {
+    const converter = converterRegistry
+      .list()
+      .reverse()
+      .find((candidate) => candidate.inputs.includes(source) && candidate.outputs.includes(to) && isUsable(candidate, to, support))
+    return converter ? { from: source, to, steps: [{ converter, from: source, to }], cost: converter.cost ?? 1 } : null
+  }
+  return shortestRoutes(source, support).get(to) ?? null
+}
+
+/** Options of every converter on the route; a key shared by several steps is shown once */
+export const getPlanOptions = (plan: ConversionPlan | null): ConverterOption[] => {
+  const options = new Map<string, ConverterOption>()
+  for (const { converter } of plan?.steps ?? []) {
+    for (const option of converter.options ?? []) {
+      if (!options.has(option.key)) options.set(option.key, option)
+    }
+  }
+  return [...options.values()]
+}
+
+/** Run each step in turn, feeding every intermediate result into the next converter */
+export async function runPlan(
+  plan: ConversionPlan,
+  file: File,
+  options: OptionValues,
+  onProgress: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const baseName = file.name.replace(/\.[^.]+$/, '')
+  const count = plan.steps.length
+  let input = file
+  let output: Blob | undefined
+
+  for (const [index, step] of plan.steps.entries()) {
+    const isLast = index === count - 1
+    signal?.throwIfAborted()
+    output = await step.converter.convert(input, options, {
+      targetFormat: step.to,
+      signal,
+      onProgress: (progress) =>
+        onProgress({
+          ...progress,
+          progress: Math.round((index * 100 + progress.progress) / count),
+          // Only the final step completes the conversion as a whole
+          status: progress.status === 'completed' && !isLast ? 'converting' : progress.status,
+          step: count > 1 ? { index, count, from: step.from, to: step.to } : undefined,
+        }),
+    })
+
+    if (!isLast) {
+      if (output.type === 'application/zip') {
+        throw new Error(`The ${step.from} → ${step.to} step produced several files, which cannot feed the next step`)
+      }
+      input = new File([output], `${baseName}.${step.to}`, { type: output.type })
+    }
+  }
+
+  if (!output) {
+    throw new Error(`No conversion steps from ${plan.from} to ${plan.to}`)
+  }
+  return output
+}
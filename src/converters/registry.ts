@@ -0,0 +1,33 @@
+import type { Converter, ConverterOption, OptionValues } from './types'
+
+export class ConverterRegistry {
+  private converters = new Map<string, Converter>()
+
+  /** Add a converter; returns a function that removes it again */
+  register(converter: Converter): () => void {
+    if (this.converters.has(converter.id)) {
+      throw new Error(`A converter with id "${converter.id}" is already registered`)
+    }
+    this.converters.set(converter.id, converter)
+    return () => {
+      this.converters.delete(converter.id)
+    }
+  }
+
+  list(): Converter[] {
+    return [...this.converters.values()]
+  }
+
+  /** The converter that handles input → output; later registrations take precedence */
+  find(input: string, output: string): Converter | undefined {
+    const ext = input.toLowerCase()
+    return this.list()
+      .reverse()
+      .find((converter) => converter.inputs.includes(ext) && converter.outputs.includes(output))
+  }
+}
+
+export const converterRegistry = new ConverterRegistry()
+
+export const getDefaultOptions = (options: ConverterOption[] = []): OptionValues =>
+  Object.fromEntries(options.map((option) => [option.key, option.default]))
@@ -0,0 +1,48 @@
+import type { ConversionProgress } from '../utils/fileConverter'
+
+export type FormatCategory = 'image' | 'video' | 'audio' | 'document'
+
+export type OptionValue = string | number
+export type OptionValues = Record<string, OptionValue>
+
+interface OptionBase {
+  key: string
+  label: string
+  /** Hide the field unless the current values call for it */
+  visibleWhen?: (values: OptionValues) => boolean
+}
+
+export type ConverterOption =
+  | (OptionBase & { type: 'select'; choices: { value: string; label: string }[]; default: string })
+  | (OptionBase & { type: 'number'; min?: number; max?: number; step?: number; default: number })
+
+export interface ConversionContext {
+  targetFormat: string
+  onProgress: (progress: ConversionProgress) => void
+  /** Aborted when the user cancels; converters must stop work and release resources */
+  signal?: AbortSignal
+}
+
+/**
+ * A converter plugin. Register it with `converterRegistry.register()` and its
+ * (input, output) pairs show up in the format pickers automatically.
+ */
+export interface Converter {
+  /** Unique, stable identifier, e.g. `builtin.image` */
+  id: string
+  label: string
+  category: FormatCategory
+  /** Lower-case file extensions */
+  inputs: string[]
+  outputs: string[]
+  /**
+   * Browser features individual outputs depend on, keyed by output:
+   * `canvas:<mime>` for canvas encoders, `recorder:<mime>` for MediaRecorder
+   */
+  requires?: Record<string, string>
+  /** Relative expense of one run, used to rank multi-step routes (default 1) */
+  cost?: number
+  /** Options shown in the queue row; values reach `convert` keyed by `key` */
+  options?: ConverterOption[]
+  convert(file: File, options: OptionValues, context: ConversionContext): Promise<Blob>
+}
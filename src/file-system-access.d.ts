@@ -0,0 +1,38 @@
+// File System Access pickers are Chromium-only and not yet part of TypeScript's DOM types
+
+interface FilePickerAcceptType {
+  description?: string
+  accept: Record<string, string[]>
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string
+  types?: FilePickerAcceptType[]
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>
+}
+
+interface DirectoryPickerOptions {
+  mode?: 'read' | 'readwrite'
+}
+
+interface Window {
+  showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>
+}
+
+// Directory iteration lives in the DOM.AsyncIterable lib, which this project does not load
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>
+}
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: 'read' | 'readwrite'
+}
+
+// Permission checks matter for handles kept across sessions, which lose write access on reload
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react"
+
+import { isIndexedDbAvailable } from "@/storage/db"
+import { loadHistory, subscribeHistory, type HistoryEntry } from "@/storage/historyStore"
+
+/** The conversion history, newest first; null until it has loaded */
+export function useHistory(): HistoryEntry[] | null {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null)
+
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) {
+      setEntries([])
+      return
+    }
+
+    let active = true
+    const reload = () =>
+      loadHistory()
+        .then((history) => active && setEntries(history))
+        .catch((error) => console.error("Failed to load history:", error))
+    reload()
+    const unsubscribe = subscribeHistory(reload)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return entries
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { isIndexedDbAvailable } from "@/storage/db"
+import { loadSetting, saveSetting } from "@/storage/settingsStore"
+import { DEFAULT_NAME_TEMPLATE } from "@/utils/naming"
+
+const TEMPLATE_KEY = "nameTemplate"
+
+/** The output file name template, remembered across sessions */
+export function useNameTemplate() {
+  const [template, setTemplateState] = useState(DEFAULT_NAME_TEMPLATE)
+  // Read by the scheduler's naming callback, which is created once
+  const latest = useRef(template)
+
+  useEffect(() => {
+    latest.current = template
+  }, [template])
+
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) return
+    let active = true
+    loadSetting<string>(TEMPLATE_KEY)
+      .then((saved) => {
+        if (active && saved) setTemplateState(saved)
+      })
+      .catch((error) => console.error("Failed to load the name template:", error))
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const setTemplate = useCallback((next: string) => {
+    setTemplateState(next)
+    if (isIndexedDbAvailable()) {
+      saveSetting(TEMPLATE_KEY, next).catch((error) => console.error("Failed to save setting:", error))
+    }
+  }, [])
+
+  return { template, latest, setTemplate }
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { isAbortError } from "@/utils/abort"
+import { hasWriteAccess, supportsOutputDirectory, type CollisionPolicy } from "@/utils/outputDirectory"
+import { isIndexedDbAvailable } from "@/storage/db"
+import { deleteSetting, loadSetting, saveSetting } from "@/storage/settingsStore"
+
+const HANDLE_KEY = "outputDirectory"
+const POLICY_KEY = "collisionPolicy"
+
+export interface OutputDirectory {
+  handle: FileSystemDirectoryHandle | null
+  /** Write access is granted; a handle restored from an earlier session needs it asked for again */
+  writable: boolean
+  policy: CollisionPolicy
+}
+
+const remember = (key: string, value: unknown) => {
+  if (!isIndexedDbAvailable()) return
+  saveSetting(key, value).catch((error) => console.error("Failed to save setting:", error))
+}
+
+/**
+ * The folder converted files are written to, remembered across sessions.
+ * `latest` always holds the current state for callbacks created earlier.
+ */
+export function useOutputDirectory() {
+  const [state, setState] = useState<OutputDirectory>({ handle: null, writable: false, policy: "rename" })
+  const latest = useRef(state)
+
+  useEffect(() => {
+    latest.current = state
+  }, [state])
+
+  useEffect(() => {
+    if (!supportsOutputDirectory() || !isIndexedDbAvailable()) return
+    let active = true
+    Promise.all([loadSetting<FileSystemDirectoryHandle>(HANDLE_KEY), loadSetting<CollisionPolicy>(POLICY_KEY)])
+      .then(async ([handle, policy]) => {
+        const writable = handle ? await hasWriteAccess(handle) : false
+        if (active) setState((previous) => ({ handle: handle ?? null, writable, policy: policy ?? previous.policy }))
+      })
+      .catch((error) => console.error("Failed to restore the output folder:", error))
+    return () => {
+      active = false
+    }
+  }, [])
+
+  /** Ask for a folder; resolves false if the user dismissed the picker */
+  const choose = useCallback(async () => {
+    try {
+      const handle = await window.showDirectoryPicker!({ mode: "readwrite" })
+      setState((previous) => ({ ...previous, handle, writable: true }))
+      remember(HANDLE_KEY, handle)
+      return true
+    } catch (error) {
+      if (isAbortError(error)) return false
+      throw error
+    }
+  }, [])
+
+  /** Ask again for write access to the remembered folder; call from a click handler */
+  const reconnect = useCallback(async () => {
+    const { handle } = latest.current
+    if (!handle) return false
+    const writable = await hasWriteAccess(handle, true)
+    setState((previous) => ({ ...previous, writable }))
+    return writable
+  }, [])
+
+  const clear = useCallback(() => {
+    setState((previous) => ({ ...previous, handle: null, writable: false }))
+    if (isIndexedDbAvailable()) deleteSetting(HANDLE_KEY).catch((error) => console.error("Failed to save setting:", error))
+  }, [])
+
+  const setPolicy = useCallback((policy: CollisionPolicy) => {
+    setState((previous) => ({ ...previous, policy }))
+    remember(POLICY_KEY, policy)
+  }, [])
+
+  return { ...state, latest, choose, reconnect, clear, setPolicy }
+}
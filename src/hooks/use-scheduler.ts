@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react"
+
+import type { ConversionScheduler, SchedulerState } from "@/scheduler/scheduler"
+
+export function useSchedulerState(scheduler: ConversionScheduler): SchedulerState {
+  return useSyncExternalStore(scheduler.subscribe, scheduler.getSnapshot)
+}
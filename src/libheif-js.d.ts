@@ -0,0 +1,27 @@
+// libheif-js ships typings for the raw Emscripten exports only, not for its JavaScript decoder wrapper
+
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  export interface HeifImage {
+    is_primary(): boolean
+    get_width(): number
+    get_height(): number
+    /** Decodes into `target.data` as RGBA, then calls back with `target`, or with null on failure */
+    display<T extends { data: Uint8ClampedArray; width: number; height: number }>(
+      target: T,
+      callback: (result: T | null) => void
+    ): void
+    free(): void
+  }
+
+  export interface HeifDecoder {
+    /** An empty array if the file cannot be parsed; each call frees the images of the previous one */
+    decode(data: Uint8Array): HeifImage[]
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => HeifDecoder
+  }
+
+  /** Instantiates the inlined WebAssembly module synchronously */
+  export default function libheif(options?: object): LibHeif
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { ConversionScheduler, getOverallProgress, type ConversionJob } from './scheduler'
+
+const newJob = (name: string) => ({
+  file: new File([name], name, { type: 'image/png' }),
+  originalFormat: 'png',
+  targetFormat: 'jpg',
+  options: {},
+  category: 'image' as const,
+})
+
+describe('getOverallProgress', () => {
+  it('counts a job retried while its batch still runs once', async () => {
+    let finish = () => {}
+    const running = new Promise<void>((resolve) => (finish = resolve))
+    const scheduler = new ConversionScheduler({
+      run: async (job: ConversionJob) => {
+        if (job.file.name === 'broken.png') throw new Error('Unreadable image')
+        await running
+        return new Blob(['converted'], { type: 'image/jpeg' })
+      },
+    })
+
+    const jobs = scheduler.add([newJob('a.png'), newJob('b.png'), newJob('broken.png')])
+    scheduler.enqueueAll()
+    const broken = jobs[2]
+    await vi.waitFor(() => expect(scheduler.getSnapshot().jobs.find((job) => job.id === broken.id)?.status).toBe('error'))
+
+    scheduler.enqueue(broken.id)
+    expect(getOverallProgress(scheduler.getSnapshot()).total).toBe(3)
+
+    finish()
+    await vi.waitFor(() => expect(getOverallProgress(scheduler.getSnapshot()).done).toBe(3))
+    expect(getOverallProgress(scheduler.getSnapshot()).total).toBe(3)
+  })
+})
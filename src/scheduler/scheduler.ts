@@ -0,0 +1,452 @@
+import type { FormatCategory, OptionValues } from '../converters'
+import { isRetryable } from '../utils/errors'
+import { numberedName } from '../utils/format'
+import { getBaseName } from '../utils/naming'
+import type { ConversionProgress, ConversionStepInfo } from '../utils/fileConverter'
+
+/**
+ * The conversion queue. The scheduler owns every job's state and starts
+ * queued jobs as slots free up, honouring a per-category concurrency limit
+ * and job priorities. Failures that may pass on a second try are retried
+ * with exponential backoff. React reads it through `useSyncExternalStore`.
+ */
+
+export type JobStatus = 'pending' | 'queued' | 'converting' | 'completed' | 'error'
+export type JobPriority = 'high' | 'normal' | 'low'
+
+/** One converted file; a source file keeps every output it has been converted to */
+export interface JobOutput {
+  id: string
+  targetFormat: string
+  name: string
+  size: number
+  createdAt: number
+  /** Milliseconds the successful attempt took */
+  duration: number
+  /** Absent once the output has been evicted to free storage */
+  blob?: Blob
+  url?: string
+}
+
+export interface ConversionJob {
+  id: string
+  file: File
+  /** Where the file sat inside the archive or folder it came from, e.g. "photos/2024/beach.png" */
+  path?: string
+  originalFormat: string
+  targetFormat: string
+  options: OptionValues
+  /** Category of the source file; its concurrency limit applies to the job */
+  category: FormatCategory
+  priority: JobPriority
+  /** `pending` jobs wait for the user, `queued` ones for a free slot */
+  status: JobStatus
+  progress: number
+  /** Current step while a multi-step route runs */
+  step?: ConversionStepInfo
+  /** Newest last */
+  outputs: JobOutput[]
+  error?: string
+  /** Failed attempts of the current run */
+  attempt: number
+  /** Set while a failed job waits out its backoff before running again */
+  retryAt?: number
+  createdAt: number
+}
+
+export type NewJob = Pick<ConversionJob, 'file' | 'originalFormat' | 'targetFormat' | 'options' | 'category'> &
+  Partial<Pick<ConversionJob, 'priority' | 'path'>>
+
+export interface SchedulerState {
+  jobs: ConversionJob[]
+  /** While paused no new jobs start; running ones finish */
+  paused: boolean
+  concurrency: Record<FormatCategory, number>
+  /** Jobs queued since the scheduler was last idle, for the overall progress bar */
+  batch: string[]
+}
+
+export type JobRunner = (
+  job: ConversionJob,
+  onProgress: (progress: ConversionProgress) => void,
+  signal: AbortSignal
+) => Promise<Blob>
+
+export interface RetryPolicy {
+  /** Total attempts, including the first */
+  maxAttempts: number
+  /** Delay before the first retry; doubles with every further attempt */
+  baseDelay: number
+}
+
+export interface OutputNameContext {
+  /** Extension of the output, which differs from the target format for multi-file ZIPs */
+  extension: string
+  /** 1-based position of the job in the current batch */
+  index: number
+}
+
+export type OutputNamer = (job: ConversionJob, blob: Blob, context: OutputNameContext) => string | Promise<string>
+
+export interface SchedulerOptions {
+  run: JobRunner
+  /** Names new outputs; defaults to the source name with the new extension */
+  nameOutput?: OutputNamer
+  concurrency?: Partial<Record<FormatCategory, number>>
+  retry?: RetryPolicy
+  onJobComplete?: (job: ConversionJob) => void
+  onJobError?: (job: ConversionJob, error: unknown) => void
+}
+
+export const DEFAULT_CONCURRENCY: Record<FormatCategory, number> = {
+  image: 4,
+  video: 1,
+  audio: 2,
+  document: 2,
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelay: 1000 }
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 }
+
+const isActive = (job: ConversionJob) => job.status === 'queued' || job.status === 'converting'
+
+const revokeOutput = (output: JobOutput) => {
+  if (output.url) URL.revokeObjectURL(output.url)
+}
+
+const createId = () => Math.random().toString(36).slice(2, 11)
+
+export class ConversionScheduler {
+  private state: SchedulerState
+  private readonly options: SchedulerOptions
+  private listeners = new Set<() => void>()
+  private controllers = new Map<string, AbortController>()
+  /** Enqueue order, so equal priorities run first-come first-served */
+  private queueOrder = new Map<string, number>()
+  private nextOrder = 0
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  constructor(options: SchedulerOptions) {
+    this.options = options
+    this.state = {
+      jobs: [],
+      paused: false,
+      concurrency: { ...DEFAULT_CONCURRENCY, ...options.concurrency },
+      batch: [],
+    }
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.state
+
+  add(newJobs: NewJob[]): ConversionJob[] {
+    const jobs = newJobs.map((job): ConversionJob => ({
+      priority: 'normal',
+      ...job,
+      id: createId(),
+      status: 'pending',
+      progress: 0,
+      outputs: [],
+      attempt: 0,
+      createdAt: Date.now(),
+    }))
+    this.setState({ jobs: [...this.state.jobs, ...jobs] })
+    return jobs
+  }
+
+  /**
+   * Bring back jobs from an earlier session. Interrupted jobs return to the
+   * queue, which starts paused so nothing runs before the user says so.
+   */
+  restore(jobs: ConversionJob[]) {
+    const restored = jobs.map((job): ConversionJob => ({
+      ...job,
+      status: job.status === 'converting' ? 'queued' : job.status,
+      progress: job.status === 'completed' ? 100 : 0,
+      step: undefined,
+      attempt: 0,
+      retryAt: undefined,
+      outputs: job.outputs.map((output) => ({ ...output, url: output.blob && URL.createObjectURL(output.blob) })),
+    }))
+    for (const job of restored) {
+      if (job.status === 'queued') this.queueOrder.set(job.id, this.nextOrder++)
+    }
+
+    const hasQueued = restored.some((job) => job.status === 'queued')
+    this.setState({
+      jobs: [...this.state.jobs, ...restored],
+      paused: this.state.paused || hasQueued,
+      batch: restored.filter((job) => job.status === 'queued').map((job) => job.id),
+    })
+  }
+
+  /** Change a job's settings; earlier outputs are kept */
+  update(id: string, patch: Partial<Pick<ConversionJob, 'targetFormat' | 'options' | 'priority'>>) {
+    const job = this.getJob(id)
+    if (!job || job.status === 'converting') return
+    this.patchJob(id, patch)
+  }
+
+  /** Queue a job; a finished one runs again and adds another output */
+  enqueue(id: string) {
+    this.enqueueJobs([id])
+  }
+
+  enqueueAll() {
+    this.enqueueJobs(this.state.jobs.filter((job) => job.status === 'pending').map((job) => job.id))
+  }
+
+  /** Stop a queued or running job and return it to pending */
+  cancel(id: string) {
+    const job = this.getJob(id)
+    if (!job || !isActive(job)) return
+
+    this.stopJob(id)
+    this.setState({
+      jobs: this.state.jobs.map((candidate) => (candidate.id === id ? { ...candidate, ...this.resetFields() } : candidate)),
+      batch: this.state.batch.filter((batchId) => batchId !== id),
+    })
+    this.pump()
+  }
+
+  remove(id: string) {
+    const job = this.getJob(id)
+    if (!job) return
+
+    this.stopJob(id)
+    job.outputs.forEach(revokeOutput)
+    this.setState({
+      jobs: this.state.jobs.filter((candidate) => candidate.id !== id),
+      batch: this.state.batch.filter((batchId) => batchId !== id),
+    })
+    this.pump()
+  }
+
+  clear() {
+    this.state.jobs.forEach((job) => {
+      this.stopJob(job.id)
+      job.outputs.forEach(revokeOutput)
+    })
+    this.setState({ jobs: [], batch: [] })
+  }
+
+  removeOutput(jobId: string, outputId: string) {
+    const job = this.getJob(jobId)
+    const output = job?.outputs.find((candidate) => candidate.id === outputId)
+    if (!job || !output) return
+
+    revokeOutput(output)
+    this.patchJob(jobId, { outputs: job.outputs.filter((candidate) => candidate !== output) })
+  }
+
+  /** Drop an output's data but keep its record, so the row can say it is gone */
+  evictOutput(jobId: string, outputId: string) {
+    const job = this.getJob(jobId)
+    const output = job?.outputs.find((candidate) => candidate.id === outputId)
+    if (!job || !output?.blob) return
+
+    revokeOutput(output)
+    this.patchJob(jobId, {
+      outputs: job.outputs.map((candidate) =>
+        candidate === output ? { ...candidate, blob: undefined, url: undefined } : candidate
+      ),
+    })
+  }
+
+  pause() {
+    this.setState({ paused: true })
+  }
+
+  resume() {
+    this.setState({ paused: false })
+    this.pump()
+  }
+
+  setConcurrency(category: FormatCategory, limit: number) {
+    this.setState({ concurrency: { ...this.state.concurrency, [category]: Math.max(1, Math.floor(limit)) } })
+    this.pump()
+  }
+
+  private getJob(id: string) {
+    return this.state.jobs.find((job) => job.id === id)
+  }
+
+  private setState(patch: Partial<SchedulerState>) {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private patchJob(id: string, patch: Partial<ConversionJob>) {
+    this.setState({ jobs: this.state.jobs.map((job) => (job.id === id ? { ...job, ...patch } : job)) })
+  }
+
+  private resetFields(): Partial<ConversionJob> {
+    return { status: 'pending', progress: 0, step: undefined, error: undefined, attempt: 0, retryAt: undefined }
+  }
+
+  /** Abort the job if it runs and drop any queue bookkeeping for it */
+  private stopJob(id: string) {
+    this.controllers.get(id)?.abort()
+    this.controllers.delete(id)
+    this.queueOrder.delete(id)
+    clearTimeout(this.retryTimers.get(id))
+    this.retryTimers.delete(id)
+  }
+
+  private enqueueJobs(ids: string[]) {
+    const jobs = ids.map((id) => this.getJob(id)).filter((job): job is ConversionJob => !!job && !isActive(job))
+    if (!jobs.length) return
+
+    // A new batch starts whenever the queue had drained
+    const batch = this.state.jobs.some(isActive) ? this.state.batch : []
+    for (const job of jobs) {
+      this.queueOrder.set(job.id, this.nextOrder++)
+    }
+
+    const queued = new Set(jobs.map((job) => job.id))
+    this.setState({
+      jobs: this.state.jobs.map((job) =>
+        queued.has(job.id) ? { ...job, ...this.resetFields(), status: 'queued' as const } : job
+      ),
+      // A job retried while its batch still runs is already in it
+      batch: [...new Set([...batch, ...queued])],
+    })
+    this.pump()
+  }
+
+  /** Start as many queued jobs as the concurrency limits allow */
+  private pump() {
+    if (this.state.paused) return
+
+    const running: Partial<Record<FormatCategory, number>> = {}
+    for (const job of this.state.jobs) {
+      if (job.status === 'converting') running[job.category] = (running[job.category] ?? 0) + 1
+    }
+
+    const queued = this.state.jobs
+      .filter((job) => job.status === 'queued' && job.retryAt === undefined)
+      .sort(
+        (a, b) =>
+          PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+          (this.queueOrder.get(a.id) ?? 0) - (this.queueOrder.get(b.id) ?? 0)
+      )
+
+    for (const job of queued) {
+      const active = running[job.category] ?? 0
+      if (active >= this.state.concurrency[job.category]) continue
+      running[job.category] = active + 1
+      void this.start(job)
+    }
+  }
+
+  /** Keep the job queued (and its place in line) but hold it back until the delay has passed */
+  private scheduleRetry(id: string, attempt: number, error: string, delay: number) {
+    this.patchJob(id, { status: 'queued', progress: 0, step: undefined, attempt, error, retryAt: Date.now() + delay })
+    this.retryTimers.set(
+      id,
+      setTimeout(() => {
+        this.retryTimers.delete(id)
+        this.patchJob(id, { retryAt: undefined })
+        this.pump()
+      }, delay)
+    )
+  }
+
+  private async nameOutput(job: ConversionJob, blob: Blob, extension: string): Promise<string> {
+    const index = this.state.batch.indexOf(job.id) + 1 || this.state.jobs.findIndex((candidate) => candidate.id === job.id) + 1
+    return this.options.nameOutput
+      ? this.options.nameOutput(job, blob, { extension, index })
+      : `${getBaseName(job.file.name)}.${extension}`
+  }
+
+  /**
+   * Number `name` when another output in the queue already has it. Runs in
+   * the same tick as the output is added, so jobs finishing together cannot
+   * both claim a name.
+   */
+  private uniqueName(name: string): string {
+    const taken = new Set(this.state.jobs.flatMap((candidate) => candidate.outputs.map((output) => output.name)))
+    if (!taken.has(name)) return name
+    let count = 2
+    while (taken.has(numberedName(name, count))) count++
+    return numberedName(name, count)
+  }
+
+  private async start(job: ConversionJob) {
+    const controller = new AbortController()
+    const startedAt = Date.now()
+    this.controllers.set(job.id, controller)
+    this.patchJob(job.id, { status: 'converting', progress: 0, step: undefined })
+
+    const onProgress = (progress: ConversionProgress) => {
+      if (controller.signal.aborted) return
+      this.patchJob(job.id, { progress: progress.progress, step: progress.step })
+    }
+
+    try {
+      const blob = await this.options.run(job, onProgress, controller.signal)
+      controller.signal.throwIfAborted()
+
+      // Multi-page renders come back as a ZIP of images
+      const outputExtension = blob.type === 'application/zip' ? 'zip' : job.targetFormat
+      const name = await this.nameOutput(job, blob, outputExtension)
+      controller.signal.throwIfAborted()
+
+      const output: JobOutput = {
+        id: createId(),
+        targetFormat: job.targetFormat,
+        name: this.uniqueName(name),
+        size: blob.size,
+        createdAt: Date.now(),
+        duration: Date.now() - startedAt,
+        blob,
+        url: URL.createObjectURL(blob),
+      }
+      this.queueOrder.delete(job.id)
+      this.patchJob(job.id, {
+        status: 'completed',
+        progress: 100,
+        step: undefined,
+        attempt: 0,
+        outputs: [...(this.getJob(job.id)?.outputs ?? []), output],
+      })
+      this.options.onJobComplete?.(this.getJob(job.id) ?? job)
+    } catch (error) {
+      // Cancelled jobs have already been reset or removed
+      if (controller.signal.aborted) return
+
+      const attempt = (this.getJob(job.id)?.attempt ?? 0) + 1
+      const policy = this.options.retry ?? DEFAULT_RETRY_POLICY
+      const message = error instanceof Error ? error.message : 'Conversion failed'
+      if (isRetryable(error) && attempt < policy.maxAttempts) {
+        this.scheduleRetry(job.id, attempt, message, policy.baseDelay * 2 ** (attempt - 1))
+        return
+      }
+
+      this.queueOrder.delete(job.id)
+      this.patchJob(job.id, { status: 'error', step: undefined, attempt, error: message })
+      this.options.onJobError?.(this.getJob(job.id) ?? job, error)
+    } finally {
+      if (this.controllers.get(job.id) === controller) this.controllers.delete(job.id)
+      this.pump()
+    }
+  }
+}
+
+/** Progress of the current batch as a whole; finished and failed jobs count as done */
+export function getOverallProgress(state: SchedulerState): { done: number; total: number; progress: number } {
+  const jobs = state.batch.map((id) => state.jobs.find((job) => job.id === id)).filter((job): job is ConversionJob => !!job)
+  const done = jobs.filter((job) => job.status === 'completed' || job.status === 'error').length
+  const sum = jobs.reduce(
+    (total, job) => total + (job.status === 'completed' || job.status === 'error' ? 100 : job.status === 'converting' ? job.progress : 0),
+    0
+  )
+  return { done, total: jobs.length, progress: jobs.length ? Math.round(sum / jobs.length) : 0 }
+}
@@ -0,0 +1,50 @@
+import { BLOBS_STORE, HISTORY_STORE, JOBS_STORE, requestToPromise, transaction } from './db'
+import type { HistoryEntry } from './historyStore'
+import type { StoredJob } from './queueStore'
+
+/**
+ * Blobs are shared: a source file or output may be referenced by a queued
+ * job, by history entries, or by both. Records and the blobs they add are
+ * written in one transaction, and a blob is only deleted once no record
+ * points at it any more.
+ */
+
+export interface BlobRecord {
+  id: string
+  jobId: string
+  blob: Blob
+}
+
+/** Blob key of a job's source file; outputs use their own ids */
+export const sourceBlobId = (jobId: string) => `${jobId}:source`
+
+export const loadBlob = (id: string): Promise<Blob | undefined> =>
+  transaction([BLOBS_STORE], 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(BLOBS_STORE).get(id) as IDBRequest<BlobRecord | undefined>)
+  ).then((record) => record?.blob)
+
+const referencedBlobs = (jobs: StoredJob[], history: HistoryEntry[]) => {
+  const ids = new Set<string>()
+  for (const job of jobs) {
+    ids.add(sourceBlobId(job.id))
+    job.outputs.forEach((output) => !output.evicted && ids.add(output.id))
+  }
+  for (const entry of history) {
+    if (!entry.sourceEvicted) ids.add(sourceBlobId(entry.jobId))
+    if (!entry.outputEvicted) ids.add(entry.id)
+  }
+  return ids
+}
+
+/** Delete every blob that neither a job nor a history entry references */
+export const collectGarbage = (): Promise<void> =>
+  transaction([JOBS_STORE, HISTORY_STORE, BLOBS_STORE], 'readwrite', async (tx) => {
+    const [jobs, history, keys] = await Promise.all([
+      requestToPromise(tx.objectStore(JOBS_STORE).getAll() as IDBRequest<StoredJob[]>),
+      requestToPromise(tx.objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryEntry[]>),
+      requestToPromise(tx.objectStore(BLOBS_STORE).getAllKeys()),
+    ])
+    const live = referencedBlobs(jobs, history)
+    const blobs = tx.objectStore(BLOBS_STORE)
+    keys.forEach((key) => !live.has(String(key)) && blobs.delete(key))
+  })
@@ -0,0 +1,80 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ */
+
+const DB_NAME = 'universal-file-converter'
+const DB_VERSION = 3
+
+export const JOBS_STORE = 'jobs'
+/** Source files and converted outputs, keyed separately from the job records that reference them */
+export const BLOBS_STORE = 'blobs'
+/** Finished conversions; unlike jobs they outlive "Clear All" */
+export const HISTORY_STORE = 'history'
+/** Preferences worth keeping across sessions, keyed by name */
+export const SETTINGS_STORE = 'settings'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined'
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(JOBS_STORE)) {
+          database.createObjectStore(JOBS_STORE, { keyPath: 'id' })
+        }
+        if (!database.objectStoreNames.contains(BLOBS_STORE)) {
+          database.createObjectStore(BLOBS_STORE, { keyPath: 'id' }).createIndex('jobId', 'jobId')
+        }
+        if (!database.objectStoreNames.contains(HISTORY_STORE)) {
+          database.createObjectStore(HISTORY_STORE, { keyPath: 'id' })
+        }
+        if (!database.objectStoreNames.contains(SETTINGS_STORE)) {
+          database.createObjectStore(SETTINGS_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('The storage database is open in an older version of this app'))
+    })
+    // Let a later call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/** Run `work` in one transaction and resolve with its result once the transaction has committed */
+export async function transaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const database = await openDatabase()
+  const tx = database.transaction(storeNames, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction aborted'))
+  })
+  let result: T
+  try {
+    result = await work(tx)
+  } catch (error) {
+    done.catch(() => {})
+    tx.abort()
+    throw error
+  }
+  await done
+  return result
+}
@@ -0,0 +1,85 @@
+import type { FormatCategory, OptionValues } from '../converters'
+import { collectGarbage } from './blobStore'
+import { HISTORY_STORE, requestToPromise, transaction } from './db'
+
+/**
+ * The conversion history: one entry per output produced. Entries keep
+ * their job's source file and the output itself alive in the blob store
+ * until the storage policy evicts them or the entry is deleted.
+ */
+
+export interface HistoryEntry {
+  /** The output's id, which is also its blob key */
+  id: string
+  jobId: string
+  fileName: string
+  /** Where the source sat inside the archive or folder it came from */
+  path?: string
+  fileType: string
+  lastModified: number
+  originalFormat: string
+  targetFormat: string
+  category: FormatCategory
+  options: OptionValues
+  sourceSize: number
+  outputName: string
+  outputSize: number
+  /** Milliseconds the successful attempt took */
+  duration: number
+  completedAt: number
+  sourceEvicted?: boolean
+  outputEvicted?: boolean
+}
+
+const listeners = new Set<() => void>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+/** Called after every change to the history */
+export const subscribeHistory = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Newest first */
+export const loadHistory = (): Promise<HistoryEntry[]> =>
+  transaction([HISTORY_STORE], 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryEntry[]>)
+  ).then((entries) => entries.sort((a, b) => b.completedAt - a.completedAt))
+
+export const addHistory = async (entry: HistoryEntry): Promise<void> => {
+  await transaction([HISTORY_STORE], 'readwrite', (tx) => {
+    tx.objectStore(HISTORY_STORE).put(entry)
+  })
+  notify()
+}
+
+/** Apply `patch` to the given entries, e.g. to mark their blobs evicted */
+export const updateHistory = async (ids: string[], patch: Partial<Omit<HistoryEntry, 'id'>>): Promise<void> => {
+  if (!ids.length) return
+  await transaction([HISTORY_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(HISTORY_STORE)
+    const entries = await Promise.all(
+      ids.map((id) => requestToPromise(store.get(id) as IDBRequest<HistoryEntry | undefined>))
+    )
+    entries.forEach((entry) => entry && store.put({ ...entry, ...patch }))
+  })
+  await collectGarbage()
+  notify()
+}
+
+/** Delete entries, or the whole history when no ids are given */
+export const deleteHistory = async (ids?: string[]): Promise<void> => {
+  await transaction([HISTORY_STORE], 'readwrite', (tx) => {
+    const store = tx.objectStore(HISTORY_STORE)
+    if (ids) {
+      ids.forEach((id) => store.delete(id))
+    } else {
+      store.clear()
+    }
+  })
+  await collectGarbage()
+  notify()
+}
@@ -0,0 +1,67 @@
+import 'fake-indexeddb/auto'
+import { describe, expect, it, vi } from 'vitest'
+
+import { ConversionScheduler, type ConversionJob } from '../scheduler/scheduler'
+import { loadBlob, sourceBlobId } from './blobStore'
+import { loadHistory } from './historyStore'
+import { startPersistence } from './persistence'
+import { saveJob } from './queueStore'
+
+const createScheduler = () => new ConversionScheduler({ run: async () => new Blob(['converted']) })
+
+const newJob = (name: string) => ({
+  file: new File([name], name, { type: 'text/plain' }),
+  originalFormat: 'txt',
+  targetFormat: 'pdf',
+  options: {},
+  category: 'document' as const,
+})
+
+describe('startPersistence', () => {
+  it('saves jobs added while the stored queue is still loading', async () => {
+    await saveJob(
+      {
+        id: 'stored',
+        fileName: 'stored.txt',
+        fileType: 'text/plain',
+        fileSize: 6,
+        lastModified: 0,
+        originalFormat: 'txt',
+        targetFormat: 'pdf',
+        options: {},
+        category: 'document',
+        priority: 'normal',
+        status: 'pending',
+        outputs: [],
+        createdAt: 0,
+      },
+      [{ id: sourceBlobId('stored'), blob: new Blob(['stored']) }]
+    )
+
+    const scheduler = createScheduler()
+    const stop = startPersistence(scheduler)
+    // The restore reads IndexedDB asynchronously, so this job arrives first
+    const [early] = scheduler.add([newJob('early.txt')])
+
+    await vi.waitFor(async () => expect(await loadBlob(sourceBlobId(early.id))).toBeDefined())
+    stop()
+
+    let restored: ConversionJob[] = []
+    const stopNext = startPersistence(createScheduler(), { onRestore: (jobs) => (restored = jobs) })
+    await vi.waitFor(() => expect(restored.map((job) => job.id).sort()).toEqual([early.id, 'stored'].sort()))
+    stopNext()
+  })
+
+  it('keeps the path a job came from in its history entries', async () => {
+    const scheduler = createScheduler()
+    const stop = startPersistence(scheduler)
+    const [job] = scheduler.add([{ ...newJob('beach.txt'), path: 'photos/beach.txt' }])
+    scheduler.enqueue(job.id)
+
+    await vi.waitFor(async () => {
+      const entry = (await loadHistory()).find((candidate) => candidate.jobId === job.id)
+      expect(entry?.path).toBe('photos/beach.txt')
+    })
+    stop()
+  })
+})
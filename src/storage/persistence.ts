@@ -0,0 +1,275 @@
+import type { ConversionJob, ConversionScheduler, JobOutput } from '../scheduler/scheduler'
+import { collectGarbage, loadBlob, sourceBlobId } from './blobStore'
+import { isIndexedDbAvailable } from './db'
+import { addHistory, loadHistory, updateHistory, type HistoryEntry } from './historyStore'
+import { deleteJob, loadJobs, saveJob, type StoredJob } from './queueStore'
+
+/**
+ * Keeps the scheduler's queue in IndexedDB: restores it on startup, mirrors
+ * every change back, records finished conversions in the history, and
+ * evicts old files when they expire or storage runs low.
+ */
+
+/** Files older than this are evicted even when space is plentiful */
+export const OUTPUT_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+/** Eviction starts once usage passes this share of the quota... */
+const QUOTA_HIGH_WATER = 0.8
+/** ...and frees space until usage is back under this share */
+const QUOTA_LOW_WATER = 0.6
+
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return quota ? { usage, quota } : null
+}
+
+const toStoredJob = (job: ConversionJob): StoredJob => ({
+  id: job.id,
+  fileName: job.file.name,
+  fileType: job.file.type,
+  fileSize: job.file.size,
+  lastModified: job.file.lastModified,
+  path: job.path,
+  originalFormat: job.originalFormat,
+  targetFormat: job.targetFormat,
+  options: job.options,
+  category: job.category,
+  priority: job.priority,
+  status: job.status,
+  error: job.error,
+  outputs: job.outputs.map(({ id, targetFormat, name, size, createdAt, duration, blob }) => ({
+    id,
+    targetFormat,
+    name,
+    size,
+    createdAt,
+    duration,
+    evicted: blob ? undefined : true,
+  })),
+  createdAt: job.createdAt,
+})
+
+const toHistoryEntry = (job: ConversionJob, output: JobOutput): HistoryEntry => ({
+  id: output.id,
+  jobId: job.id,
+  fileName: job.file.name,
+  path: job.path,
+  fileType: job.file.type,
+  lastModified: job.file.lastModified,
+  originalFormat: job.originalFormat,
+  targetFormat: output.targetFormat,
+  category: job.category,
+  options: job.options,
+  sourceSize: job.file.size,
+  outputName: output.name,
+  outputSize: output.size,
+  duration: output.duration,
+  completedAt: output.createdAt,
+})
+
+/** The fields worth a write; progress ticks alone are not */
+const persistedKey = (job: ConversionJob) =>
+  JSON.stringify([
+    job.targetFormat,
+    job.options,
+    job.priority,
+    job.status,
+    job.error,
+    job.outputs.map((output) => [output.id, !!output.blob]),
+  ])
+
+async function loadQueue(): Promise<ConversionJob[]> {
+  const stored = (await loadJobs()).sort((a, b) => a.createdAt - b.createdAt)
+  const jobs = await Promise.all(
+    stored.map(async (job): Promise<ConversionJob | null> => {
+      const source = await loadBlob(sourceBlobId(job.id))
+      if (!source) return null
+
+      const outputs = await Promise.all(
+        job.outputs.map(async ({ evicted, ...output }): Promise<JobOutput> => ({
+          ...output,
+          blob: evicted ? undefined : await loadBlob(output.id),
+        }))
+      )
+      const { fileName, fileType, lastModified, ...rest } = job
+      return {
+        ...rest,
+        file: new File([source], fileName, { type: fileType, lastModified }),
+        outputs,
+        progress: 0,
+        attempt: 0,
+      }
+    })
+  )
+  return jobs.filter((job): job is ConversionJob => job !== null)
+}
+
+interface StoredFile {
+  size: number
+  createdAt: number
+  evict: () => Promise<void> | void
+}
+
+/**
+ * Everything that may be evicted: outputs, and the source files history
+ * keeps after their job has left the queue. Sources of queued jobs stay.
+ */
+function evictableFiles(scheduler: ConversionScheduler, history: HistoryEntry[]): StoredFile[] {
+  const jobs = new Map(scheduler.getSnapshot().jobs.map((job) => [job.id, job]))
+  const files = new Map<string, StoredFile>()
+
+  for (const job of jobs.values()) {
+    for (const output of job.outputs) {
+      if (!output.blob) continue
+      files.set(output.id, {
+        size: output.size,
+        createdAt: output.createdAt,
+        evict: () => {
+          scheduler.evictOutput(job.id, output.id)
+          return updateHistory([output.id], { outputEvicted: true })
+        },
+      })
+    }
+  }
+
+  for (const entry of history) {
+    if (!entry.outputEvicted && !files.has(entry.id)) {
+      files.set(entry.id, {
+        size: entry.outputSize,
+        createdAt: entry.completedAt,
+        evict: () => updateHistory([entry.id], { outputEvicted: true }),
+      })
+    }
+    // History is newest first, so the first entry of a job dates its source
+    const source = sourceBlobId(entry.jobId)
+    if (!entry.sourceEvicted && !jobs.has(entry.jobId) && !files.has(source)) {
+      const entries = history.filter((candidate) => candidate.jobId === entry.jobId).map((candidate) => candidate.id)
+      files.set(source, {
+        size: entry.sourceSize,
+        createdAt: entry.completedAt,
+        evict: () => updateHistory(entries, { sourceEvicted: true }),
+      })
+    }
+  }
+
+  return [...files.values()].sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Evict expired files, then the oldest remaining ones while usage is above
+ * the high-water mark.
+ */
+export async function enforceStoragePolicy(scheduler: ConversionScheduler) {
+  const now = Date.now()
+  const stored = evictableFiles(scheduler, await loadHistory())
+
+  const evict = stored.filter((file) => now - file.createdAt > OUTPUT_MAX_AGE)
+  const usage = await getStorageUsage()
+  if (usage && usage.usage > usage.quota * QUOTA_HIGH_WATER) {
+    let excess = usage.usage - usage.quota * QUOTA_LOW_WATER - evict.reduce((total, file) => total + file.size, 0)
+    for (const file of stored) {
+      if (excess <= 0) break
+      if (evict.includes(file)) continue
+      evict.push(file)
+      excess -= file.size
+    }
+  }
+
+  for (const file of evict) await file.evict()
+}
+
+export interface PersistenceOptions {
+  /** Called once with the jobs brought back from the last session */
+  onRestore?: (jobs: ConversionJob[]) => void
+  /** Called after every write, e.g. to refresh a quota display */
+  onStorageChange?: () => void
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Restore the saved queue into `scheduler`, then write every change back.
+ * Returns a function that stops persisting.
+ */
+export function startPersistence(scheduler: ConversionScheduler, options: PersistenceOptions = {}): () => void {
+  if (!isIndexedDbAvailable()) return () => {}
+
+  let stopped = false
+  let unsubscribe = () => {}
+  // Writes run one at a time so a delete can never overtake the save it follows
+  let writes = Promise.resolve()
+  const enqueueWrite = (write: () => Promise<void>) => {
+    writes = writes
+      .then(write)
+      .then(() => options.onStorageChange?.())
+      .catch(options.onError ?? console.error)
+  }
+
+  loadQueue()
+    .then((restored) => {
+      if (stopped) return
+      if (restored.length) {
+        scheduler.restore(restored)
+        options.onRestore?.(restored)
+      }
+
+      // Only restored jobs are already stored; anything added while loading is saved as new
+      const restoredIds = new Set(restored.map((job) => job.id))
+      let previous = new Map(
+        scheduler
+          .getSnapshot()
+          .jobs.filter((job) => restoredIds.has(job.id))
+          .map((job) => [job.id, job])
+      )
+      const keys = new Map([...previous.values()].map((job) => [job.id, persistedKey(job)]))
+
+      const sync = () => {
+        const current = new Map(scheduler.getSnapshot().jobs.map((job) => [job.id, job]))
+
+        for (const job of current.values()) {
+          const before = previous.get(job.id)
+          if (before === job) continue
+          const key = persistedKey(job)
+          if (before && keys.get(job.id) === key) continue
+          keys.set(job.id, key)
+
+          const added = job.outputs.filter(
+            (output) => output.blob && !before?.outputs.some((old) => old.id === output.id && old.blob)
+          )
+          const dropped = (before?.outputs ?? []).filter(
+            (old) => old.blob && !job.outputs.some((output) => output.id === old.id && output.blob)
+          )
+          const blobs = added.map((output) => ({ id: output.id, blob: output.blob! }))
+          if (!before) blobs.unshift({ id: sourceBlobId(job.id), blob: job.file })
+          enqueueWrite(async () => {
+            await saveJob(toStoredJob(job), blobs)
+            for (const output of added) await addHistory(toHistoryEntry(job, output))
+            if (dropped.length) await collectGarbage()
+          })
+          if (added.length) enqueueWrite(() => enforceStoragePolicy(scheduler))
+        }
+
+        for (const id of previous.keys()) {
+          if (!current.has(id)) {
+            keys.delete(id)
+            enqueueWrite(() => deleteJob(id))
+          }
+        }
+        previous = current
+      }
+
+      unsubscribe = scheduler.subscribe(sync)
+      sync()
+      enqueueWrite(() => enforceStoragePolicy(scheduler))
+    })
+    .catch(options.onError ?? console.error)
+
+  return () => {
+    stopped = true
+    unsubscribe()
+  }
+}
@@ -0,0 +1,58 @@
+import type { FormatCategory, OptionValues } from '../converters'
+import type { JobPriority, JobStatus } from '../scheduler/scheduler'
+import { collectGarbage, type BlobRecord } from './blobStore'
+import { BLOBS_STORE, JOBS_STORE, requestToPromise, transaction } from './db'
+
+/**
+ * Records for the persisted conversion queue. Job records are small and are
+ * rewritten on every status change; the source file and each output live in
+ * the blob store and are written once, along with the record that first
+ * references them.
+ */
+
+export interface StoredOutput {
+  id: string
+  targetFormat: string
+  name: string
+  size: number
+  createdAt: number
+  duration: number
+  /** The blob has been deleted to free space */
+  evicted?: boolean
+}
+
+export interface StoredJob {
+  id: string
+  fileName: string
+  fileType: string
+  fileSize: number
+  lastModified: number
+  path?: string
+  originalFormat: string
+  targetFormat: string
+  options: OptionValues
+  category: FormatCategory
+  priority: JobPriority
+  status: JobStatus
+  error?: string
+  outputs: StoredOutput[]
+  createdAt: number
+}
+
+export const loadJobs = (): Promise<StoredJob[]> =>
+  transaction([JOBS_STORE], 'readonly', (tx) => requestToPromise(tx.objectStore(JOBS_STORE).getAll() as IDBRequest<StoredJob[]>))
+
+/** Write a job record together with the blobs it newly references */
+export const saveJob = (job: StoredJob, blobs: Omit<BlobRecord, 'jobId'>[] = []): Promise<void> =>
+  transaction([JOBS_STORE, BLOBS_STORE], 'readwrite', (tx) => {
+    blobs.forEach(({ id, blob }) => tx.objectStore(BLOBS_STORE).put({ id, jobId: job.id, blob } satisfies BlobRecord))
+    tx.objectStore(JOBS_STORE).put(job)
+  })
+
+/** Remove a job record; its blobs go too unless the history still needs them */
+export const deleteJob = async (id: string): Promise<void> => {
+  await transaction([JOBS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(JOBS_STORE).delete(id)
+  })
+  await collectGarbage()
+}
@@ -0,0 +1,21 @@
+import { requestToPromise, SETTINGS_STORE, transaction } from './db'
+
+/**
+ * Small values remembered between sessions. Anything structured-cloneable
+ * fits, including file system handles.
+ */
+
+export const loadSetting = <T>(key: string): Promise<T | undefined> =>
+  transaction([SETTINGS_STORE], 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(SETTINGS_STORE).get(key) as IDBRequest<T | undefined>)
+  )
+
+export const saveSetting = (key: string, value: unknown): Promise<void> =>
+  transaction([SETTINGS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(value, key)
+  })
+
+export const deleteSetting = (key: string): Promise<void> =>
+  transaction([SETTINGS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(SETTINGS_STORE).delete(key)
+  })
@@ -0,0 +1,24 @@
+/**
+ * AbortSignal helpers shared by the converters and the worker pool.
+ */
+
+/** Cancelled work and dismissed file pickers both reject with an AbortError */
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+/** The error to reject with once `signal` has fired */
+export const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The conversion was cancelled', 'AbortError')
+
+/**
+ * Call `handler` when the signal aborts (immediately if it already has).
+ * Returns a function that detaches the listener once the work is done.
+ */
+export function onAbort(signal: AbortSignal | undefined, handler: () => void): () => void {
+  if (!signal) return () => {}
+  if (signal.aborted) {
+    handler()
+    return () => {}
+  }
+  signal.addEventListener('abort', handler, { once: true })
+  return () => signal.removeEventListener('abort', handler)
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+
+import { expandArchive } from './archives'
+import { createZipStream } from './zip'
+
+const zeros = (length: number) => new Blob([new Uint8Array(length)])
+
+const zipOf = async (sizes: number[]) => {
+  const stream = createZipStream(sizes.map((size, index) => ({ name: `file-${index}.bin`, data: zeros(size), compress: true })))
+  return new File([await new Response(stream).blob()], 'archive.zip')
+}
+
+/** Rewrite every central directory entry to claim `size` bytes unpacked, as a zip bomb would */
+const understateSizes = async (zip: File, size: number) => {
+  const bytes = new Uint8Array(await zip.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    if (view.getUint32(i, true) === 0x02014b50) view.setUint32(i + 24, size, true)
+  }
+  return new File([bytes], zip.name)
+}
+
+describe('expandArchive', () => {
+  it('unpacks ZIP entries within the size cap', async () => {
+    const members = await expandArchive(await zipOf([400, 500]), 'zip', 1000)
+    expect(members.map((member) => [member.path, member.file.size])).toEqual([
+      ['file-0.bin', 400],
+      ['file-1.bin', 500],
+    ])
+  })
+
+  it('refuses a ZIP whose entries together pass the cap', async () => {
+    await expect(expandArchive(await zipOf([600, 600]), 'zip', 1000)).rejects.toThrow('when unpacked')
+  })
+
+  it('counts inflated bytes rather than trusting the declared sizes', async () => {
+    const bomb = await understateSizes(await zipOf([100_000]), 10)
+    await expect(expandArchive(bomb, 'zip', 1000)).rejects.toThrow('when unpacked')
+  })
+
+  it('refuses gzip data that inflates past the cap', async () => {
+    const gzip = await new Response(zeros(100_000).stream().pipeThrough(new CompressionStream('gzip'))).blob()
+    await expect(expandArchive(new File([gzip], 'data.bin.gz'), 'gz', 1000)).rejects.toThrow('when unpacked')
+  })
+})
@@ -0,0 +1,168 @@
+import { formatFileSize } from './format'
+import { getExtension } from './sniff'
+import { limitSize, readZip } from './zip'
+
+/**
+ * Archive input: ZIP, TAR and gzip-compressed TAR files are unpacked in the
+ * browser so their members can be queued like files the user picked.
+ */
+
+export const ARCHIVE_FORMATS = ['zip', 'tar', 'gz', 'tgz']
+
+export const isArchiveFormat = (format: string) => ARCHIVE_FORMATS.includes(format)
+
+export interface ArchiveMember {
+  /** Path inside the archive, using '/' as separator */
+  path: string
+  file: File
+}
+
+const TAR_BLOCK = 512
+/**
+ * Unpacked members stay in memory until they are queued, so a zip bomb or a
+ * huge archive is turned away once its contents pass this size
+ */
+const MAX_UNPACKED_SIZE = 1024 ** 3
+
+const tooLarge = (maxSize: number) => new Error(`Its contents exceed ${formatFileSize(maxSize)} when unpacked`)
+
+const rethrowTooLarge = (maxSize: number) => (error: unknown): never => {
+  throw error instanceof RangeError ? tooLarge(maxSize) : error
+}
+
+/** Folders and files that archivers add for their own bookkeeping */
+const isMetadataPath = (path: string) =>
+  path.startsWith('__MACOSX/') || path.split('/').some((part) => part === '.DS_Store' || part.startsWith('._'))
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1)
+
+const toMember = (path: string, data: Blob, lastModified?: number): ArchiveMember => {
+  // `tar -C dir .` stores every path under "./"
+  const normalized = path.replace(/^(\.?\/)+/, '')
+  return { path: normalized, file: new File([data], baseName(normalized), { lastModified }) }
+}
+
+const readString = (bytes: Uint8Array, start: number, length: number) => {
+  const field = bytes.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return new TextDecoder().decode(end < 0 ? field : field.subarray(0, end))
+}
+
+/** Numeric fields are octal text, or big-endian binary when the high bit of the first byte is set */
+const readNumber = (bytes: Uint8Array, start: number, length: number) => {
+  if (bytes[start] & 0x80) {
+    let value = bytes[start] & 0x7f
+    for (let i = 1; i < length; i++) value = value * 256 + bytes[start + i]
+    return value
+  }
+  return parseInt(readString(bytes, start, length).trim() || '0', 8)
+}
+
+/** PAX extended headers are "<length> <key>=<value>\n" records */
+const readPaxPath = (text: string): string | undefined => {
+  for (const record of text.split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record)
+    if (match) return match[1]
+  }
+  return undefined
+}
+
+const isTar = async (source: Blob) => {
+  const magic = await source.slice(257, 262).text()
+  return magic === 'ustar'
+}
+
+/** Walk a TAR archive's headers; member data stays a slice of `source` */
+async function readTar(source: Blob): Promise<ArchiveMember[]> {
+  const members: ArchiveMember[] = []
+  let longPath: string | undefined
+  let pos = 0
+
+  while (pos + TAR_BLOCK <= source.size) {
+    const header = new Uint8Array(await source.slice(pos, pos + TAR_BLOCK).arrayBuffer())
+    // Two zero blocks end the archive
+    if (header.every((byte) => byte === 0)) break
+
+    const size = readNumber(header, 124, 12)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const dataStart = pos + TAR_BLOCK
+    const data = source.slice(dataStart, dataStart + size)
+    pos = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK
+
+    // GNU long names and PAX headers describe the member that follows them
+    if (type === 'L') {
+      longPath = readString(new Uint8Array(await data.arrayBuffer()), 0, size)
+      continue
+    }
+    if (type === 'x') {
+      longPath = readPaxPath(await data.text()) ?? longPath
+      continue
+    }
+
+    const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : ''
+    const name = readString(header, 0, 100)
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name)
+    longPath = undefined
+
+    // '0' and '7' are regular files; links, directories and devices have no contents of their own
+    if (type === '0' || type === '7') {
+      members.push(toMember(path, data, readNumber(header, 136, 12) * 1000))
+    }
+  }
+
+  return members
+}
+
+async function readZipMembers(source: Blob, maxSize: number): Promise<ArchiveMember[]> {
+  const entries = (await readZip(source)).filter((entry) => !entry.isDirectory)
+  if (entries.reduce((total, entry) => total + entry.size, 0) > maxSize) throw tooLarge(maxSize)
+
+  // One entry at a time, each allowed only what the others left of the cap
+  const members: ArchiveMember[] = []
+  let remaining = maxSize
+  for (const entry of entries) {
+    const data = await entry.blob(remaining).catch(rethrowTooLarge(maxSize))
+    remaining -= data.size
+    members.push(toMember(entry.name, data, entry.lastModified.getTime()))
+  }
+  return members
+}
+
+/**
+ * A gzip file is usually a compressed TAR; anything else is a single
+ * compressed file, named after the archive without its .gz suffix.
+ */
+async function readGzip(file: File, maxSize: number): Promise<ArchiveMember[]> {
+  const inflated = file.stream().pipeThrough(new DecompressionStream('gzip')).pipeThrough(limitSize(maxSize))
+  const data = await new Response(inflated).blob().catch(rethrowTooLarge(maxSize))
+  if (await isTar(data)) return readTar(data)
+  const name = getExtension(file.name) === 'gz' ? file.name.slice(0, -'.gz'.length) : file.name
+  return [toMember(name, data, file.lastModified)]
+}
+
+/**
+ * List the files inside an archive, skipping folders and archiver metadata.
+ * Fails once the unpacked contents pass `maxSize` bytes.
+ */
+export async function expandArchive(
+  file: File,
+  format: string,
+  maxSize = MAX_UNPACKED_SIZE
+): Promise<ArchiveMember[]> {
+  let members: ArchiveMember[]
+  switch (format) {
+    case 'zip':
+      members = await readZipMembers(file, maxSize)
+      break
+    case 'tar':
+      members = await readTar(file)
+      break
+    case 'gz':
+    case 'tgz':
+      members = await readGzip(file, maxSize)
+      break
+    default:
+      throw new Error(`Unsupported archive format: ${format}`)
+  }
+  return members.filter((member) => !isMetadataPath(member.path))
+}
@@ -0,0 +1,83 @@
+import { hasAlpha, type RgbaImage } from './raster'
+
+/**
+ * Windows bitmap encoder. 24-bit files use the plain BITMAPINFOHEADER every
+ * reader understands; 32-bit files need a BITMAPV4HEADER so the alpha mask is
+ * declared, otherwise most viewers ignore the fourth byte.
+ */
+
+export interface BmpOptions {
+  /** Defaults to 32 when the image has transparency, 24 otherwise */
+  bitsPerPixel?: 24 | 32
+}
+
+const FILE_HEADER_SIZE = 14
+const INFO_HEADER_SIZE = 40
+const V4_HEADER_SIZE = 108
+const BI_RGB = 0
+const BI_BITFIELDS = 3
+/** 'sRGB' as the V4 header's colour space type */
+const LCS_SRGB = 0x73524742
+/** 72 DPI in pixels per metre */
+const PIXELS_PER_METRE = 2835
+
+export function encodeBmp(image: RgbaImage, options: BmpOptions = {}): Blob {
+  const { width, height, data } = image
+  const bitsPerPixel = options.bitsPerPixel ?? (hasAlpha(image) ? 32 : 24)
+  const bytesPerPixel = bitsPerPixel / 8
+  // Rows are padded to a multiple of 4 bytes
+  const rowSize = Math.ceil((width * bytesPerPixel) / 4) * 4
+  const headerSize = bitsPerPixel === 32 ? V4_HEADER_SIZE : INFO_HEADER_SIZE
+  const pixelOffset = FILE_HEADER_SIZE + headerSize
+  const fileSize = pixelOffset + rowSize * height
+  if (fileSize > 0xffffffff) throw new Error('Image is too large for a BMP file')
+
+  const buffer = new ArrayBuffer(fileSize)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+
+  bytes[0] = 0x42 // "BM"
+  bytes[1] = 0x4d
+  view.setUint32(2, fileSize, true)
+  view.setUint32(10, pixelOffset, true)
+
+  view.setUint32(14, headerSize, true)
+  view.setInt32(18, width, true)
+  // A positive height means rows are stored bottom-up
+  view.setInt32(22, height, true)
+  view.setUint16(26, 1, true) // planes
+  view.setUint16(28, bitsPerPixel, true)
+  view.setUint32(30, bitsPerPixel === 32 ? BI_BITFIELDS : BI_RGB, true)
+  view.setUint32(34, rowSize * height, true)
+  view.setInt32(38, PIXELS_PER_METRE, true)
+  view.setInt32(42, PIXELS_PER_METRE, true)
+  if (bitsPerPixel === 32) {
+    view.setUint32(54, 0x00ff0000, true) // red mask
+    view.setUint32(58, 0x0000ff00, true) // green mask
+    view.setUint32(62, 0x000000ff, true) // blue mask
+    view.setUint32(66, 0xff000000, true) // alpha mask
+    view.setUint32(70, LCS_SRGB, true)
+  }
+
+  for (let y = 0; y < height; y++) {
+    let target = pixelOffset + (height - 1 - y) * rowSize
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4
+      const alpha = data[source + 3]
+      if (bitsPerPixel === 32) {
+        bytes[target++] = data[source + 2]
+        bytes[target++] = data[source + 1]
+        bytes[target++] = data[source]
+        bytes[target++] = alpha
+      } else {
+        // Without an alpha channel, transparent areas are flattened onto white
+        const background = 255 - alpha
+        bytes[target++] = Math.round((data[source + 2] * alpha) / 255 + background)
+        bytes[target++] = Math.round((data[source + 1] * alpha) / 255 + background)
+        bytes[target++] = Math.round((data[source] * alpha) / 255 + background)
+      }
+    }
+  }
+
+  return new Blob([buffer], { type: 'image/bmp' })
+}
@@ -0,0 +1,96 @@
+import { converterRegistry, getReachableFormats, type FormatCategory } from '../converters'
+import { ARCHIVE_FORMATS } from './archives'
+
+/**
+ * Capability queries: the (input, output) conversions offered by the
+ * registered converters, filtered by what the running browser can encode.
+ * The UI builds its format pickers from here, so a format is only offered
+ * when a real encoder backs it, either directly or at the end of a
+ * multi-step route.
+ */
+
+export interface Capability {
+  category: FormatCategory
+  input: string
+  output: string
+  /** Browser feature the output depends on, as a key into BrowserSupport */
+  requires?: string
+}
+
+/** Probe results keyed by requirement, e.g. `canvas:image/webp` or `recorder:video/mp4` */
+export type BrowserSupport = Record<string, boolean>
+
+export const getCapabilities = (): Capability[] =>
+  converterRegistry.list().flatMap((converter) =>
+    converter.inputs.flatMap((input) =>
+      converter.outputs.map((output) => ({
+        category: converter.category,
+        input,
+        output,
+        requires: converter.requires?.[output],
+      }))
+    )
+  )
+
+const canvasSupports = (mimeType: string): Promise<boolean> =>
+  new Promise((resolve) => {
+    const canvas = document.createElement('canvas')
+    canvas.width = 1
+    canvas.height = 1
+    // Browsers fall back to PNG for types they cannot encode instead of failing
+    canvas.toBlob((blob) => resolve(blob?.type === mimeType), mimeType)
+  })
+
+const recorderSupports = (mimeType: string): boolean =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType)
+
+/** Check every requirement in the registry against the running browser */
+export async function probeBrowserSupport(): Promise<BrowserSupport> {
+  const requirements = [...new Set(getCapabilities().map((capability) => capability.requires).filter(Boolean))] as string[]
+  const results = await Promise.all(
+    requirements.map(async (requirement) => {
+      const [kind, mimeType] = requirement.split(/:(.*)/)
+      const supported =
+        kind === 'canvas' ? await canvasSupports(mimeType) : kind === 'recorder' ? recorderSupports(mimeType) : false
+      return [requirement, supported] as const
+    })
+  )
+  return Object.fromEntries(results)
+}
+
+/** Before probing finishes every declared capability is assumed to be available */
+const isAvailable = (capability: Capability, support?: BrowserSupport | null): boolean =>
+  !capability.requires || !support || support[capability.requires] === true
+
+const unique = (values: string[]) => [...new Set(values)]
+
+export const getInputCategory = (extension: string): FormatCategory | null =>
+  getCapabilities().find((capability) => capability.input === extension.toLowerCase())?.category ?? null
+
+/** Direct outputs in registration order, then formats only reachable through intermediate steps */
+export const getOutputFormats = (input: string, support?: BrowserSupport | null): string[] =>
+  unique([
+    ...getCapabilities()
+      .filter((capability) => capability.input === input.toLowerCase() && isAvailable(capability, support))
+      .map((capability) => capability.output),
+    ...getReachableFormats(input, support),
+  ])
+
+export const getCategoryFormats = (
+  category: FormatCategory,
+  support?: BrowserSupport | null
+): { input: string[]; output: string[] } => {
+  const available = getCapabilities().filter((capability) => capability.category === category && isAvailable(capability, support))
+  return {
+    input: unique(available.map((capability) => capability.input)),
+    output: unique(available.map((capability) => capability.output)),
+  }
+}
+
+export const FORMAT_CATEGORIES: FormatCategory[] = ['image', 'video', 'audio', 'document']
+
+/** Inputs for the file picker: every convertible format plus the archives they may arrive in */
+export const getAcceptedExtensions = (): string =>
+  unique([...getCapabilities().map((capability) => capability.input), ...ARCHIVE_FORMATS])
+    .map((extension) => `.${extension}`)
+    .join(',')
@@ -0,0 +1,72 @@
+import type { ConversionProgress } from '../fileConverter'
+import { createPdfFromBlocks, createTextPdf } from '../pdfWriter'
+import { readDocx, writeDocx } from './docx'
+import { readMarkdown } from './markdown'
+import { documentToPdfBlocks, documentToText, textToDocument, type DocumentModel } from './model'
+import { readOdt } from './odt'
+import { readRtf, writeRtf } from './rtf'
+
+/**
+ * Document conversion through the shared document model. Nothing here
+ * touches the DOM, so the same code runs in the conversion worker and on
+ * the main thread.
+ */
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase()
+
+async function readDocument(name: string, data: Blob): Promise<DocumentModel> {
+  const extension = getExtension(name)
+
+  switch (extension) {
+    case 'txt':
+      return textToDocument(await data.text())
+    case 'docx':
+      return await readDocx(data)
+    case 'odt':
+      return await readOdt(data)
+    case 'rtf':
+      return readRtf(new Uint8Array(await data.arrayBuffer()))
+    case 'md':
+      return readMarkdown(await data.text())
+    default:
+      throw new Error(`Text extraction from ${extension?.toUpperCase()} files is not supported`)
+  }
+}
+
+export async function convertDocumentData(
+  name: string,
+  data: Blob,
+  targetFormat: string,
+  onProgress: (progress: ConversionProgress) => void
+): Promise<Blob> {
+  // Plain text keeps its exact line layout instead of being reflowed into paragraphs
+  if (getExtension(name) === 'txt' && targetFormat === 'pdf') {
+    onProgress({ progress: 30, status: 'converting', message: 'Reading text...' })
+    const text = await data.text()
+    onProgress({ progress: 50, status: 'converting', message: 'Creating PDF...' })
+    const blob = createTextPdf(text)
+    onProgress({ progress: 100, status: 'completed' })
+    return blob
+  }
+
+  onProgress({ progress: 30, status: 'converting', message: 'Extracting text...' })
+  const document = await readDocument(name, data)
+
+  let blob: Blob
+  if (targetFormat === 'pdf') {
+    onProgress({ progress: 50, status: 'converting', message: 'Creating PDF...' })
+    blob = createPdfFromBlocks(documentToPdfBlocks(document), { title: document.title })
+  } else if (targetFormat === 'txt') {
+    blob = new Blob([documentToText(document)], { type: 'text/plain' })
+  } else if (targetFormat === 'docx') {
+    onProgress({ progress: 70, status: 'converting', message: 'Packaging Word document...' })
+    blob = await writeDocx(document)
+  } else if (targetFormat === 'rtf') {
+    blob = new Blob([writeRtf(document)], { type: 'application/rtf' })
+  } else {
+    throw new Error(`Conversion from ${getExtension(name)} to ${targetFormat} not supported`)
+  }
+
+  onProgress({ progress: 100, status: 'completed' })
+  return blob
+}
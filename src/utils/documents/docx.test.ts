@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+import { readZip, readZipEntryText } from '../zip'
+import { writeDocx } from './docx'
+import { textToDocument } from './model'
+
+describe('writeDocx', () => {
+  it('writes form feeds as page breaks and drops other control characters', async () => {
+    const docx = await writeDocx(textToDocument('first page\fsecond\x00 page\x1b'))
+    const documentXml = await readZipEntryText(await readZip(docx), 'word/document.xml')
+
+    expect(documentXml).toContain(
+      '<w:t xml:space="preserve">first page</w:t><w:br w:type="page"/><w:t xml:space="preserve">second page</w:t>'
+    )
+    expect(documentXml).not.toMatch(/[^\t\n\r\u0020-\uFFFD]/)
+  })
+})
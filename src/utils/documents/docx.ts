@@ -0,0 +1,362 @@
+import { createZip, readZip, readZipEntryText } from '../zip'
+import { normalizeRuns, type DocumentBlock, type DocumentModel, type TextRun } from './model'
+import { childElements, escapeXml, findChild, getAttribute, localName, parseXml, type XmlElement } from './xml'
+
+/**
+ * WordprocessingML (.docx) reader and writer.
+ */
+
+interface DocxContext {
+  /** styleId → heading level, from styles.xml */
+  headingStyles: Map<string, number>
+  /** numId → per-level "is ordered" flags, from numbering.xml */
+  numbering: Map<string, boolean[]>
+}
+
+/** `<w:b/>` means on; `<w:b w:val="0"/>` or "false" means off */
+const isToggleOn = (element: XmlElement | undefined): boolean => {
+  if (!element) return false
+  const value = getAttribute(element, 'val')
+  return value === undefined || !['0', 'false', 'off', 'none'].includes(value)
+}
+
+const parseHeadingStyles = (xml: string | null): Map<string, number> => {
+  const headings = new Map<string, number>()
+  if (!xml) return headings
+
+  for (const style of childElements(parseXml(xml), 'style')) {
+    const id = getAttribute(style, 'styleId')
+    if (!id) continue
+    // Built-in heading styles keep their English name even when the id is localized
+    const name = getAttribute(findChild(style, 'name'), 'val')?.toLowerCase() ?? ''
+    const outline = getAttribute(findChild(findChild(style, 'pPr'), 'outlineLvl'), 'val')
+    const match = /^heading (\d)$/.exec(name)
+    if (name === 'title') {
+      headings.set(id, 1)
+    } else if (match) {
+      headings.set(id, Number(match[1]))
+    } else if (outline !== undefined && Number(outline) < 9) {
+      headings.set(id, Number(outline) + 1)
+    }
+  }
+  return headings
+}
+
+const parseNumbering = (xml: string | null): Map<string, boolean[]> => {
+  const numbering = new Map<string, boolean[]>()
+  if (!xml) return numbering
+
+  const root = parseXml(xml)
+  const abstractFormats = new Map<string, boolean[]>()
+  for (const abstract of childElements(root, 'abstractNum')) {
+    const ordered: boolean[] = []
+    for (const level of childElements(abstract, 'lvl')) {
+      const format = getAttribute(findChild(level, 'numFmt'), 'val') ?? 'bullet'
+      ordered[Number(getAttribute(level, 'ilvl') ?? 0)] = format !== 'bullet' && format !== 'none'
+    }
+    abstractFormats.set(getAttribute(abstract, 'abstractNumId') ?? '', ordered)
+  }
+  for (const num of childElements(root, 'num')) {
+    const abstractId = getAttribute(findChild(num, 'abstractNumId'), 'val') ?? ''
+    numbering.set(getAttribute(num, 'numId') ?? '', abstractFormats.get(abstractId) ?? [])
+  }
+  return numbering
+}
+
+/** Collect the text runs of a paragraph, descending into hyperlinks, insertions and fields */
+const collectRuns = (element: XmlElement, runs: TextRun[]) => {
+  for (const child of childElements(element)) {
+    switch (localName(child.name)) {
+      case 'r': {
+        const properties = findChild(child, 'rPr')
+        const bold = isToggleOn(findChild(properties, 'b'))
+        const italic = isToggleOn(findChild(properties, 'i'))
+        for (const part of childElements(child)) {
+          const name = localName(part.name)
+          let text = ''
+          if (name === 't') text = part.children.filter((node) => typeof node === 'string').join('')
+          else if (name === 'tab') text = '\t'
+          else if (name === 'br' || name === 'cr') text = '\n'
+          else if (name === 'noBreakHyphen') text = '-'
+          runs.push({ text, bold, italic })
+        }
+        break
+      }
+      case 'hyperlink':
+      case 'ins':
+      case 'smartTag':
+      case 'fldSimple':
+      case 'customXml':
+      case 'sdtContent':
+        collectRuns(child, runs)
+        break
+      case 'sdt':
+        collectRuns(findChild(child, 'sdtContent') ?? child, runs)
+        break
+      // Deleted text, bookmarks, comments and drawings carry no visible body text
+    }
+  }
+  return runs
+}
+
+const readParagraph = (paragraph: XmlElement, context: DocxContext): DocumentBlock => {
+  const properties = findChild(paragraph, 'pPr')
+  const runs = normalizeRuns(collectRuns(paragraph, []))
+
+  const styleId = getAttribute(findChild(properties, 'pStyle'), 'val')
+  const outline = getAttribute(findChild(properties, 'outlineLvl'), 'val')
+  const headingLevel =
+    (styleId && context.headingStyles.get(styleId)) || (outline !== undefined && Number(outline) < 9 ? Number(outline) + 1 : 0)
+  if (headingLevel) {
+    return { type: 'heading', level: headingLevel, runs }
+  }
+
+  const numberingProperties = findChild(properties, 'numPr')
+  const numId = getAttribute(findChild(numberingProperties, 'numId'), 'val')
+  // numId 0 explicitly removes numbering inherited from the style
+  if (numId && numId !== '0') {
+    const level = Number(getAttribute(findChild(numberingProperties, 'ilvl'), 'val') ?? 0)
+    return { type: 'listItem', level, ordered: context.numbering.get(numId)?.[level] ?? false, runs }
+  }
+
+  return { type: 'paragraph', runs }
+}
+
+const readTable = (table: XmlElement, context: DocxContext): DocumentBlock => ({
+  type: 'table',
+  rows: childElements(table, 'tr').map((row) =>
+    childElements(row, 'tc').map((cell) => {
+      const paragraphs = readBody(cell, context)
+      return normalizeRuns(
+        paragraphs.flatMap((block, index) => {
+          const runs = block.type === 'table' ? [] : block.runs
+          return index > 0 ? [{ text: '\n' }, ...runs] : runs
+        })
+      )
+    })
+  ),
+})
+
+const readBody = (body: XmlElement, context: DocxContext): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = []
+  for (const child of childElements(body)) {
+    switch (localName(child.name)) {
+      case 'p':
+        blocks.push(readParagraph(child, context))
+        break
+      case 'tbl':
+        blocks.push(readTable(child, context))
+        break
+      case 'sdt':
+        blocks.push(...readBody(findChild(child, 'sdtContent') ?? child, context))
+        break
+      case 'customXml':
+        blocks.push(...readBody(child, context))
+        break
+    }
+  }
+  return blocks
+}
+
+export async function readDocx(file: Blob): Promise<DocumentModel> {
+  const entries = await readZip(file)
+  const documentXml = await readZipEntryText(entries, 'word/document.xml')
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing')
+  }
+
+  const context: DocxContext = {
+    headingStyles: parseHeadingStyles(await readZipEntryText(entries, 'word/styles.xml')),
+    numbering: parseNumbering(await readZipEntryText(entries, 'word/numbering.xml')),
+  }
+
+  const body = findChild(parseXml(documentXml), 'body')
+  const blocks = body ? readBody(body, context) : []
+
+  // Word pads documents with empty paragraphs for spacing; they add nothing to the text
+  return {
+    blocks: blocks.filter((block) => block.type === 'table' || block.runs.some((run) => run.text.trim())),
+  }
+}
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const HEADING_HALF_POINTS = [36, 32, 28, 26, 24, 24]
+const LIST_LEVELS = 9
+const BREAKS: Record<string, string> = { '\t': '<w:tab/>', '\n': '<w:br/>', '\f': '<w:br w:type="page"/>' }
+
+const writeRuns = (runs: TextRun[]): string =>
+  runs
+    .map((run) => {
+      const properties =
+        run.bold || run.italic ? `<w:rPr>${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}</w:rPr>` : ''
+      // Tabs and breaks are elements of their own rather than characters inside <w:t>;
+      // form feeds in plain-text dumps mark page breaks
+      const content = run.text
+        .split(/(\t|\n|\f)/)
+        .filter(Boolean)
+        .map((part) => BREAKS[part] ?? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`)
+        .join('')
+      return `<w:r>${properties}${content}</w:r>`
+    })
+    .join('')
+
+const writeParagraph = (runs: TextRun[], properties = ''): string =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${writeRuns(runs)}</w:p>`
+
+const writeTable = (rows: TextRun[][][]): string => {
+  const columns = Math.max(1, ...rows.map((cells) => cells.length))
+  const width = Math.floor(9360 / columns)
+  const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${width}"/>`).join('')
+  const body = rows
+    .map((cells) => {
+      const padded = [...cells, ...Array.from({ length: columns - cells.length }, () => [])]
+      const cellXml = padded.map((cell) => {
+        // Each paragraph of a cell is its own <w:p>; a cell must hold at least one
+        const paragraphs: TextRun[][] = [[]]
+        for (const run of cell) {
+          run.text.split('\n').forEach((text, index) => {
+            if (index > 0) paragraphs.push([])
+            paragraphs[paragraphs.length - 1].push({ ...run, text })
+          })
+        }
+        return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraphs.map((runs) => writeParagraph(normalizeRuns(runs))).join('')}</w:tc>`
+      })
+      return `<w:tr>${cellXml.join('')}</w:tr>`
+    })
+    .join('')
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`
+}
+
+const writeStyles = (): string => {
+  const headings = HEADING_HALF_POINTS.map(
+    (size, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/>` +
+      '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+      `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+  ).join('')
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`
+  return (
+    XML_DECLARATION +
+    `<w:styles xmlns:w="${WORD_NAMESPACE}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>' +
+    '<w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('') +
+    '</w:tblBorders></w:tblPr></w:style>' +
+    '</w:styles>'
+  )
+}
+
+/**
+ * One abstract numbering definition per contiguous list, so numbering
+ * restarts where the source document's lists restart.
+ */
+const writeNumbering = (lists: boolean[][]): string => {
+  const abstracts = lists.map((ordered, index) => {
+    const levels = Array.from({ length: LIST_LEVELS }, (_, level) => {
+      const format = ordered[level]
+        ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>`
+        : '<w:numFmt w:val="bullet"/><w:lvlText w:val="\u2022"/>'
+      return (
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${360 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+      )
+    }).join('')
+    return `<w:abstractNum w:abstractNumId="${index}">${levels}</w:abstractNum>`
+  })
+  const nums = lists.map((_, index) => `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${index}"/></w:num>`)
+  return XML_DECLARATION + `<w:numbering xmlns:w="${WORD_NAMESPACE}">${abstracts.join('')}${nums.join('')}</w:numbering>`
+}
+
+export async function writeDocx(document: DocumentModel): Promise<Blob> {
+  const lists: boolean[][] = []
+  const body = document.blocks
+    .map((block, index) => {
+      switch (block.type) {
+        case 'heading': {
+          const level = Math.min(Math.max(block.level, 1), HEADING_HALF_POINTS.length)
+          return writeParagraph(block.runs, `<w:pStyle w:val="Heading${level}"/>`)
+        }
+        case 'paragraph':
+          return writeParagraph(block.runs)
+        case 'listItem': {
+          if (document.blocks[index - 1]?.type !== 'listItem') lists.push([])
+          const level = Math.min(block.level, LIST_LEVELS - 1)
+          lists[lists.length - 1][level] = block.ordered
+          return writeParagraph(
+            block.runs,
+            `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${lists.length}"/></w:numPr>`
+          )
+        }
+        case 'table':
+          // Word merges adjacent tables, so keep an empty paragraph after each one
+          return writeTable(block.rows) + '<w:p/>'
+      }
+    })
+    .join('')
+
+  const documentXml =
+    XML_DECLARATION +
+    `<w:document xmlns:w="${WORD_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><w:body>${body}` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    '</w:sectPr></w:body></w:document>'
+
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${RELATIONSHIP_NAMESPACE}/${type}" Target="${target}"/>`
+  const documentRelationships = [relationship('rId1', 'styles', 'styles.xml')]
+  const overrides = [
+    ['/word/document.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml'],
+    ['/word/styles.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml'],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+  ]
+  if (lists.length) {
+    documentRelationships.push(relationship('rId2', 'numbering', 'numbering.xml'))
+    overrides.push(['/word/numbering.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml'])
+  }
+
+  const contentTypes =
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('') +
+    '</Types>'
+
+  const packageRelationships =
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="word/document.xml"/>` +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>'
+
+  const coreProperties =
+    XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (document.title ? `<dc:title>${escapeXml(document.title)}</dc:title>` : '') +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>'
+
+  const encoder = new TextEncoder()
+  const zip = await createZip(
+    [
+      ['[Content_Types].xml', contentTypes],
+      ['_rels/.rels', packageRelationships],
+      ['docProps/core.xml', coreProperties],
+      ['word/document.xml', documentXml],
+      ['word/_rels/document.xml.rels', XML_DECLARATION + `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${documentRelationships.join('')}</Relationships>`],
+      ['word/styles.xml', writeStyles()],
+      ...(lists.length ? [['word/numbering.xml', writeNumbering(lists)]] : []),
+    ].map(([name, xml]) => ({ name, data: encoder.encode(xml) }))
+  )
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+}
@@ -0,0 +1,165 @@
+import { normalizeRuns, type DocumentBlock, type DocumentModel, type TextRun } from './model'
+
+/**
+ * Markdown reader covering the CommonMark/GFM constructs that map onto the
+ * document model: ATX and setext headings, lists, pipe tables, block quotes,
+ * code blocks and bold/italic emphasis.
+ */
+
+// Backslash escapes are swapped for private-use characters while inline markup is parsed
+const ESCAPABLE = '\\`*_{}[]()#+-.!|>~'
+const escapeMarker = (char: string) => String.fromCharCode(0xe000 + ESCAPABLE.indexOf(char))
+const restoreEscapes = (text: string) =>
+  text.replace(/[\ue000-\ue0ff]/g, (char) => ESCAPABLE[char.charCodeAt(0) - 0xe000])
+
+const INLINE_PATTERN =
+  /(\*\*|__)(?=\S)(.+?)(?<=\S)\1|(\*|_)(?=\S)(.+?)(?<=\S)\3|`([^`]+)`|!\[([^\]]*)\]\([^)]*\)|\[([^\]]+)\]\([^)]*\)|<(https?:[^>\s]+)>/
+
+const parseInline = (text: string, bold = false, italic = false): TextRun[] => {
+  const runs: TextRun[] = []
+  let rest = text
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      runs.push({ text: restoreEscapes(rest), bold, italic })
+      break
+    }
+    if (match.index > 0) {
+      runs.push({ text: restoreEscapes(rest.slice(0, match.index)), bold, italic })
+    }
+
+    if (match[2] !== undefined) runs.push(...parseInline(match[2], true, italic))
+    else if (match[4] !== undefined) runs.push(...parseInline(match[4], bold, true))
+    else if (match[5] !== undefined) runs.push({ text: restoreEscapes(match[5]), bold, italic })
+    else if (match[6] !== undefined) runs.push({ text: restoreEscapes(match[6]), bold, italic })
+    else if (match[7] !== undefined) runs.push(...parseInline(match[7], bold, italic))
+    else if (match[8] !== undefined) runs.push({ text: match[8], bold, italic })
+
+    rest = rest.slice(match.index + match[0].length)
+  }
+
+  return runs
+}
+
+const inline = (text: string): TextRun[] =>
+  normalizeRuns(
+    parseInline(
+      text
+        .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, (_, char: string) => escapeMarker(char))
+        // Two trailing spaces or a backslash mark a hard line break
+        .replace(/( {2,}|\\)\n/g, '\u2028')
+        .replace(/\n/g, ' ')
+    ).map((run) => ({ ...run, text: run.text.replace(/\u2028/g, '\n') }))
+  )
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim())
+
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/
+const FENCE = /^\s*(```|~~~)/
+
+const indentWidth = (indent: string) => indent.replace(/\t/g, '    ').length
+
+export function readMarkdown(source: string): DocumentModel {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: DocumentBlock[] = []
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push({ type: 'paragraph', runs: inline(paragraph.join('\n')) })
+      paragraph = []
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    const fence = FENCE.exec(line)
+    if (fence) {
+      flushParagraph()
+      const code: string[] = []
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i])
+      }
+      blocks.push({ type: 'paragraph', runs: [{ text: code.join('\n') }] })
+      continue
+    }
+
+    if (!line.trim()) {
+      flushParagraph()
+      continue
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/.exec(line)
+    if (heading) {
+      flushParagraph()
+      blocks.push({ type: 'heading', level: heading[1].length, runs: inline(heading[2]) })
+      continue
+    }
+
+    // Setext headings underline the preceding paragraph line
+    if (paragraph.length === 1 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      blocks.push({ type: 'heading', level: line.trim()[0] === '=' ? 1 : 2, runs: inline(paragraph[0]) })
+      paragraph = []
+      continue
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph()
+      continue
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+      flushParagraph()
+      const rows: TextRun[][][] = [splitTableRow(line).map(inline)]
+      i++
+      while (i + 1 < lines.length && lines[i + 1].includes('|') && lines[i + 1].trim()) {
+        rows.push(splitTableRow(lines[++i]).map(inline))
+      }
+      blocks.push({ type: 'table', rows })
+      continue
+    }
+
+    const listItem = LIST_ITEM.exec(line)
+    if (listItem) {
+      flushParagraph()
+      // Nesting follows indentation; each level is two or more columns deeper than its parent
+      const indents: number[] = []
+      let current: RegExpExecArray | null = listItem
+      while (current) {
+        const width = indentWidth(current[1])
+        while (indents.length && width < indents[indents.length - 1]) indents.pop()
+        if (!indents.length || width > indents[indents.length - 1] + 1) indents.push(width)
+
+        const text = [current[3]]
+        // Lazy continuation lines belong to the item
+        while (i + 1 < lines.length && lines[i + 1].trim() && !LIST_ITEM.test(lines[i + 1])) {
+          text.push(lines[++i].trim())
+        }
+        blocks.push({
+          type: 'listItem',
+          level: indents.length - 1,
+          ordered: /\d/.test(current[2]),
+          runs: inline(text.join('\n')),
+        })
+
+        current = i + 1 < lines.length ? LIST_ITEM.exec(lines[i + 1]) : null
+        if (current) i++
+      }
+      continue
+    }
+
+    const quote = /^\s{0,3}>\s?(.*)$/.exec(line)
+    paragraph.push(quote ? quote[1] : line.trimStart())
+  }
+
+  flushParagraph()
+  return { blocks: blocks.filter((block) => block.type === 'table' || block.runs.some((run) => run.text.trim())) }
+}
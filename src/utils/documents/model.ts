@@ -0,0 +1,143 @@
+import type { PdfTextBlock } from '../pdfWriter'
+
+/**
+ * Format-neutral document model shared by the document readers and writers.
+ * Readers turn a file into blocks; writers serialize blocks into a format.
+ */
+
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+}
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'paragraph'; runs: TextRun[] }
+  | { type: 'listItem'; level: number; ordered: boolean; runs: TextRun[] }
+  /** Rows of cells; each cell is a run list whose paragraphs are separated by '\n' */
+  | { type: 'table'; rows: TextRun[][][] }
+
+export interface DocumentModel {
+  title?: string
+  blocks: DocumentBlock[]
+}
+
+export const runsToText = (runs: TextRun[]): string => runs.map((run) => run.text).join('')
+
+/** Drop empty runs and merge neighbours that share the same formatting */
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const last = merged[merged.length - 1]
+    if (last && !!last.bold === !!run.bold && !!last.italic === !!run.italic) {
+      last.text += run.text
+    } else {
+      merged.push({ ...run })
+    }
+  }
+  return merged
+}
+
+/** Plain text becomes one paragraph per blank-line separated chunk */
+export function textToDocument(text: string): DocumentModel {
+  const blocks: DocumentBlock[] = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => ({ type: 'paragraph', runs: [{ text: chunk.replace(/^\n+|\n+$/g, '') }] }))
+  return { blocks }
+}
+
+/**
+ * Numbering state for list items: ordered items count per nesting level and
+ * restart whenever a non-list block interrupts the list.
+ */
+const createListCounter = () => {
+  let counters: number[] = []
+  return {
+    reset: () => {
+      counters = []
+    },
+    marker: (block: { level: number; ordered: boolean }) => {
+      counters = counters.slice(0, block.level + 1)
+      counters[block.level] = (counters[block.level] ?? 0) + 1
+      return block.ordered ? `${counters[block.level]}.` : '•'
+    },
+  }
+}
+
+const tableToText = (rows: TextRun[][][]): string =>
+  rows.map((cells) => cells.map((cell) => runsToText(cell).replace(/\n/g, ' ')).join('\t')).join('\n')
+
+export function documentToText(document: DocumentModel): string {
+  const counter = createListCounter()
+  let text = ''
+  let previous: DocumentBlock['type'] | null = null
+
+  for (const block of document.blocks) {
+    // List items sit on consecutive lines; everything else is separated by a blank line
+    if (previous) {
+      text += previous === 'listItem' && block.type === 'listItem' ? '\n' : '\n\n'
+    }
+
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        text += runsToText(block.runs)
+        break
+      case 'listItem':
+        text += `${'  '.repeat(block.level)}${counter.marker(block)} ${runsToText(block.runs)}`
+        break
+      case 'table':
+        text += tableToText(block.rows)
+        break
+    }
+
+    if (block.type !== 'listItem') counter.reset()
+    previous = block.type
+  }
+
+  return text ? `${text}\n` : ''
+}
+
+const HEADING_SIZES = [20, 16, 14, 13, 12, 12]
+
+/** Lay blocks out for the PDF writer; inline bold/italic is reduced to the block's dominant style */
+export function documentToPdfBlocks(document: DocumentModel): PdfTextBlock[] {
+  const counter = createListCounter()
+
+  return document.blocks.map((block): PdfTextBlock => {
+    if (block.type !== 'listItem') counter.reset()
+
+    switch (block.type) {
+      case 'heading':
+        return {
+          text: runsToText(block.runs),
+          style: 'bold',
+          fontSize: HEADING_SIZES[Math.min(block.level, HEADING_SIZES.length) - 1],
+          spaceBefore: 12,
+          spaceAfter: 6,
+        }
+      case 'paragraph': {
+        const text = runsToText(block.runs)
+        const bold = block.runs.every((run) => run.bold || !run.text.trim())
+        const italic = block.runs.every((run) => run.italic || !run.text.trim())
+        return {
+          text,
+          style: bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular',
+          spaceAfter: 8,
+        }
+      }
+      case 'listItem':
+        return {
+          text: `${counter.marker(block)} ${runsToText(block.runs)}`,
+          indent: 18 * (block.level + 1),
+          spaceAfter: 2,
+        }
+      case 'table':
+        return { text: tableToText(block.rows).replace(/\t/g, '  |  '), spaceBefore: 4, spaceAfter: 8 }
+    }
+  })
+}
@@ -0,0 +1,219 @@
+import { readZip, readZipEntryText } from '../zip'
+import { normalizeRuns, type DocumentBlock, type DocumentModel, type TextRun } from './model'
+import { childElements, findChild, findDescendant, getAttribute, localName, parseXml, textContent, type XmlElement } from './xml'
+
+/**
+ * OpenDocument Text (.odt) reader.
+ */
+
+interface TextStyle {
+  parent?: string
+  bold?: boolean
+  italic?: boolean
+}
+
+interface OdtContext {
+  /** style:name → character formatting, from automatic and common styles */
+  textStyles: Map<string, TextStyle>
+  /** list style name → per-level "is ordered" flags */
+  listStyles: Map<string, boolean[]>
+}
+
+const collectStyles = (container: XmlElement | undefined, context: OdtContext) => {
+  if (!container) return
+
+  for (const style of childElements(container, 'style')) {
+    const name = getAttribute(style, 'name')
+    if (!name) continue
+    const properties = findChild(style, 'text-properties')
+    const weight = getAttribute(properties, 'font-weight')
+    const fontStyle = getAttribute(properties, 'font-style')
+    context.textStyles.set(name, {
+      parent: getAttribute(style, 'parent-style-name'),
+      bold: weight === undefined ? undefined : weight === 'bold' || Number(weight) >= 600,
+      italic: fontStyle === undefined ? undefined : fontStyle === 'italic' || fontStyle === 'oblique',
+    })
+  }
+
+  for (const listStyle of childElements(container, 'list-style')) {
+    const ordered: boolean[] = []
+    for (const level of childElements(listStyle)) {
+      const index = Number(getAttribute(level, 'level') ?? 1) - 1
+      ordered[index] = localName(level.name) === 'list-level-style-number'
+    }
+    context.listStyles.set(getAttribute(listStyle, 'name') ?? '', ordered)
+  }
+}
+
+/** Resolve formatting through the style's parent chain */
+const resolveStyle = (name: string | undefined, context: OdtContext, inherited: TextStyle): TextStyle => {
+  const chain: TextStyle[] = []
+  const seen = new Set<string>()
+  while (name && !seen.has(name)) {
+    seen.add(name)
+    const style = context.textStyles.get(name)
+    if (!style) break
+    chain.unshift(style)
+    name = style.parent
+  }
+  return chain.reduce<TextStyle>(
+    (resolved, style) => ({
+      bold: style.bold ?? resolved.bold,
+      italic: style.italic ?? resolved.italic,
+    }),
+    inherited
+  )
+}
+
+const collectRuns = (element: XmlElement, style: TextStyle, context: OdtContext, runs: TextRun[]) => {
+  for (const node of element.children) {
+    if (typeof node === 'string') {
+      // Whitespace runs in ODF collapse to a single space; literal spaces use <text:s/>
+      runs.push({ text: node.replace(/[ \t\n\r]+/g, ' '), bold: style.bold, italic: style.italic })
+      continue
+    }
+
+    switch (localName(node.name)) {
+      case 's':
+        runs.push({ text: ' '.repeat(Number(getAttribute(node, 'c') ?? 1)), bold: style.bold, italic: style.italic })
+        break
+      case 'tab':
+        runs.push({ text: '\t' })
+        break
+      case 'line-break':
+        runs.push({ text: '\n' })
+        break
+      case 'span':
+        collectRuns(node, resolveStyle(getAttribute(node, 'style-name'), context, style), context, runs)
+        break
+      case 'a':
+      case 'meta':
+      case 'ruby':
+      case 'ruby-base':
+        collectRuns(node, style, context, runs)
+        break
+      // Notes, annotations, bookmarks and frames carry no body text
+    }
+  }
+  return runs
+}
+
+const readParagraphRuns = (paragraph: XmlElement, context: OdtContext): TextRun[] => {
+  const style = resolveStyle(getAttribute(paragraph, 'style-name'), context, {})
+  const runs = normalizeRuns(collectRuns(paragraph, style, context, []))
+  // Collapsed whitespace at the edges of a paragraph is not rendered
+  if (runs.length) {
+    runs[0].text = runs[0].text.replace(/^ +/, '')
+    runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/ +$/, '')
+  }
+  return normalizeRuns(runs)
+}
+
+const readList = (
+  list: XmlElement,
+  level: number,
+  inheritedStyle: string | undefined,
+  context: OdtContext,
+  blocks: DocumentBlock[]
+) => {
+  const styleName = getAttribute(list, 'style-name') ?? inheritedStyle
+  const ordered = (styleName !== undefined && context.listStyles.get(styleName)?.[level]) || false
+
+  for (const item of childElements(list)) {
+    if (!['list-item', 'list-header'].includes(localName(item.name))) continue
+    for (const child of childElements(item)) {
+      const name = localName(child.name)
+      if (name === 'list') {
+        readList(child, level + 1, styleName, context, blocks)
+      } else if (name === 'p' || name === 'h') {
+        blocks.push({ type: 'listItem', level, ordered, runs: readParagraphRuns(child, context) })
+      }
+    }
+  }
+}
+
+const readTable = (table: XmlElement, context: OdtContext): DocumentBlock => {
+  const rows: TextRun[][][] = []
+  const collectRows = (container: XmlElement) => {
+    for (const child of childElements(container)) {
+      const name = localName(child.name)
+      if (name === 'table-row') {
+        rows.push(
+          childElements(child, 'table-cell').map((cell) => {
+            const paragraphs = readBody(cell, context)
+            return normalizeRuns(
+              paragraphs.flatMap((block, index) => {
+                const runs = block.type === 'table' ? [] : block.runs
+                return index > 0 ? [{ text: '\n' }, ...runs] : runs
+              })
+            )
+          })
+        )
+      } else if (name === 'table-header-rows' || name === 'table-rows' || name === 'table-row-group') {
+        collectRows(child)
+      }
+    }
+  }
+  collectRows(table)
+  return { type: 'table', rows }
+}
+
+const readBody = (container: XmlElement, context: OdtContext): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = []
+  for (const child of childElements(container)) {
+    switch (localName(child.name)) {
+      case 'h':
+        blocks.push({
+          type: 'heading',
+          level: Number(getAttribute(child, 'outline-level') ?? 1),
+          runs: readParagraphRuns(child, context),
+        })
+        break
+      case 'p':
+        blocks.push({ type: 'paragraph', runs: readParagraphRuns(child, context) })
+        break
+      case 'list':
+        readList(child, 0, undefined, context, blocks)
+        break
+      case 'table':
+        blocks.push(readTable(child, context))
+        break
+      case 'section':
+      case 'index-body':
+        blocks.push(...readBody(child, context))
+        break
+    }
+  }
+  return blocks
+}
+
+export async function readOdt(file: Blob): Promise<DocumentModel> {
+  const entries = await readZip(file)
+  const contentXml = await readZipEntryText(entries, 'content.xml')
+  if (!contentXml) {
+    throw new Error('Not an OpenDocument file: content.xml is missing')
+  }
+
+  const context: OdtContext = { textStyles: new Map(), listStyles: new Map() }
+  const stylesXml = await readZipEntryText(entries, 'styles.xml')
+  if (stylesXml) {
+    const styles = parseXml(stylesXml)
+    collectStyles(findChild(styles, 'styles'), context)
+    collectStyles(findChild(styles, 'automatic-styles'), context)
+  }
+
+  const content = parseXml(contentXml)
+  collectStyles(findChild(content, 'automatic-styles'), context)
+
+  const text = findChild(findChild(content, 'body'), 'text')
+  const blocks = text ? readBody(text, context) : []
+  const title = await readZipEntryText(entries, 'meta.xml').then((meta) => {
+    const element = meta ? findDescendant(parseXml(meta), 'title') : undefined
+    return (element && textContent(element).trim()) || undefined
+  })
+
+  return {
+    title,
+    blocks: blocks.filter((block) => block.type === 'table' || block.runs.some((run) => run.text.trim())),
+  }
+}
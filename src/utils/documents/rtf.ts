@@ -0,0 +1,475 @@
+import { normalizeRuns, type DocumentBlock, type DocumentModel, type TextRun } from './model'
+
+/**
+ * Rich Text Format reader and writer.
+ */
+
+// Windows font charset → code page (RTF spec, \fcharset)
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  0: 1252, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254, 163: 1258,
+  177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250,
+}
+
+const CODE_PAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5', 10000: 'macintosh', 65001: 'utf-8',
+}
+
+const SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' ', qmspace: ' ',
+  line: '\n', tab: '\t',
+}
+
+// Destinations whose content is never body text
+const SKIPPED_DESTINATIONS = new Set([
+  'colortbl', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'footnote', 'annotation', 'fldinst', 'themedata', 'colorschememapping',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnsdecl', 'datastore', 'latentstyles',
+  'mmathPr', 'pgdsctbl', 'revtbl', 'nonshppict', 'shp', 'shpinst', 'filetbl', 'bkmkstart', 'bkmkend',
+  'atnid', 'atnauthor', 'operator', 'author', 'company', 'comment', 'doccomm', 'keywords', 'subject',
+])
+
+const decoders = new Map<number, TextDecoder>()
+const getDecoder = (codePage: number): TextDecoder => {
+  let decoder = decoders.get(codePage)
+  if (!decoder) {
+    try {
+      decoder = new TextDecoder(CODE_PAGE_LABELS[codePage] ?? `windows-${codePage}`)
+    } catch {
+      // Code pages without a WHATWG encoding (e.g. 437) fall back to the Windows default
+      decoder = new TextDecoder('windows-1252')
+    }
+    decoders.set(codePage, decoder)
+  }
+  return decoder
+}
+
+interface GroupState {
+  bold: boolean
+  italic: boolean
+  /** \ucN: number of fallback characters that follow each \u escape */
+  unicodeSkip: number
+  codePage: number
+  destination: string | null
+}
+
+interface ParagraphState {
+  style: number
+  outlineLevel?: number
+  inTable: boolean
+  listLevel?: number
+  isList: boolean
+}
+
+const defaultParagraph = (): ParagraphState => ({ style: 0, inTable: false, isList: false })
+
+export function readRtf(data: Uint8Array): DocumentModel {
+  // One char per byte: bytes ≥ 0x80 are decoded through the active code page like \'hh escapes
+  let source = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    source += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  if (!source.trimStart().startsWith('{\\rtf')) {
+    throw new Error('Not an RTF document')
+  }
+
+  const blocks: DocumentBlock[] = []
+  const fontCharsets = new Map<number, number>()
+  const headingStyles = new Map<number, number>()
+  let documentCodePage = 1252
+  let title = ''
+
+  const stack: GroupState[] = []
+  let group: GroupState = { bold: false, italic: false, unicodeSkip: 1, codePage: 1252, destination: null }
+  let paragraph = defaultParagraph()
+  let runs: TextRun[] = []
+  let listMarker = ''
+  let pendingBytes: number[] = []
+  let fallbackToSkip = 0
+  let currentFont = 0
+  let currentStyle = 0
+  let styleName = ''
+
+  let tableRows: TextRun[][][] = []
+  let row: TextRun[][] = []
+  let cell: TextRun[] = []
+
+  const emit = (text: string) => {
+    switch (group.destination) {
+      case null:
+        runs.push({ text, bold: group.bold, italic: group.italic })
+        break
+      case 'listtext':
+        listMarker += text
+        break
+      case 'title':
+        title += text
+        break
+      case 'stylesheet':
+        styleName += text
+        break
+    }
+  }
+
+  const flushBytes = () => {
+    if (pendingBytes.length) {
+      emit(getDecoder(group.codePage).decode(new Uint8Array(pendingBytes)))
+      pendingBytes = []
+    }
+  }
+
+  const flushTable = () => {
+    if (tableRows.length) {
+      blocks.push({ type: 'table', rows: tableRows })
+      tableRows = []
+    }
+  }
+
+  const finishParagraph = () => {
+    const paragraphRuns = normalizeRuns(runs)
+    runs = []
+
+    if (paragraph.inTable) {
+      cell.push(...(cell.length ? [{ text: '\n' }] : []), ...paragraphRuns)
+      return
+    }
+
+    flushTable()
+    const marker = listMarker.trim()
+    listMarker = ''
+    const heading = paragraph.outlineLevel !== undefined ? paragraph.outlineLevel + 1 : headingStyles.get(paragraph.style)
+
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading, runs: paragraphRuns })
+    } else if (paragraph.isList || marker) {
+      blocks.push({
+        type: 'listItem',
+        level: paragraph.listLevel ?? 0,
+        ordered: /^[\dA-Za-z]+[.)]/.test(marker),
+        runs: paragraphRuns,
+      })
+    } else {
+      blocks.push({ type: 'paragraph', runs: paragraphRuns })
+    }
+  }
+
+  const handleControlWord = (word: string, param: number | null) => {
+    if (group.destination === 'fonttbl') {
+      if (word === 'f' && param !== null) currentFont = param
+      if (word === 'fcharset' && param !== null) fontCharsets.set(currentFont, param)
+      return
+    }
+    if (group.destination === 'stylesheet') {
+      if (word === 's' && param !== null) currentStyle = param
+      return
+    }
+    if (group.destination === 'info' && word === 'title') {
+      group.destination = 'title'
+      return
+    }
+    if (group.destination === 'info') return
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      group.destination = 'skip'
+      return
+    }
+
+    switch (word) {
+      case 'fonttbl':
+      case 'stylesheet':
+      case 'info':
+      case 'listtext':
+        group.destination = word
+        break
+      case 'pntext':
+        group.destination = 'listtext'
+        break
+      case 'ansicpg':
+        documentCodePage = param ?? 1252
+        group.codePage = documentCodePage
+        break
+      case 'mac':
+        documentCodePage = 10000
+        group.codePage = documentCodePage
+        break
+      case 'f':
+        group.codePage = CHARSET_CODE_PAGES[fontCharsets.get(param ?? 0) ?? -1] ?? documentCodePage
+        break
+      case 'b':
+        group.bold = param !== 0
+        break
+      case 'i':
+        group.italic = param !== 0
+        break
+      case 'plain':
+        group.bold = false
+        group.italic = false
+        break
+      case 'u':
+        if (param !== null) emit(String.fromCharCode(param < 0 ? param + 0x10000 : param))
+        fallbackToSkip = group.unicodeSkip
+        break
+      case 'uc':
+        group.unicodeSkip = param ?? 1
+        break
+      case 'par':
+        finishParagraph()
+        break
+      case 'pard':
+        paragraph = defaultParagraph()
+        break
+      case 's':
+        paragraph.style = param ?? 0
+        break
+      case 'outlinelevel':
+        paragraph.outlineLevel = param ?? 0
+        break
+      case 'intbl':
+        paragraph.inTable = true
+        break
+      case 'ls':
+        paragraph.isList = true
+        break
+      case 'ilvl':
+      case 'pnlvl':
+        paragraph.listLevel = param ?? 0
+        break
+      case 'cell':
+        finishParagraph()
+        row.push(normalizeRuns(cell))
+        cell = []
+        break
+      case 'row':
+        tableRows.push(row)
+        row = []
+        break
+      default:
+        if (SYMBOLS[word]) emit(SYMBOLS[word])
+    }
+  }
+
+  let pos = 0
+  while (pos < source.length) {
+    const char = source[pos]
+
+    if (char === '{' || char === '}') {
+      flushBytes()
+      if (char === '{') {
+        stack.push(group)
+        group = { ...group }
+      } else {
+        if (group.destination === 'stylesheet' && styleName) {
+          const match = /heading\s*(\d)/i.exec(styleName)
+          if (match) headingStyles.set(currentStyle, Number(match[1]))
+          styleName = ''
+        }
+        group = stack.pop() ?? group
+      }
+      fallbackToSkip = 0
+      pos++
+      continue
+    }
+
+    if (char === '\\') {
+      const next = source[pos + 1]
+      if (next === "'") {
+        const byte = parseInt(source.slice(pos + 2, pos + 4), 16)
+        pos += 4
+        if (fallbackToSkip > 0) {
+          fallbackToSkip--
+        } else if (!Number.isNaN(byte) && group.destination !== 'skip') {
+          pendingBytes.push(byte)
+        }
+        continue
+      }
+
+      flushBytes()
+      const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(source.slice(pos + 1, pos + 45))
+      if (match) {
+        pos += 1 + match[0].length
+        const param = match[2] !== undefined ? Number(match[2]) : null
+        if (match[1] === 'bin' && param) {
+          pos += param
+          continue
+        }
+        if (fallbackToSkip > 0 && match[1] !== 'u') {
+          fallbackToSkip--
+          continue
+        }
+        if (group.destination !== 'skip') handleControlWord(match[1], param)
+        continue
+      }
+
+      pos += 2
+      if (group.destination === 'skip') continue
+      switch (next) {
+        case '*':
+          // Ignorable destination: skip it unless we understand the control word that follows
+          if (!/^\\(listtext|pntext)\b/.test(source.slice(pos, pos + 10))) group.destination = 'skip'
+          break
+        case '~':
+          emit(' ')
+          break
+        case '_':
+          emit('‑')
+          break
+        case '\\':
+        case '{':
+        case '}':
+          emit(next)
+          break
+        case '\n':
+        case '\r':
+          handleControlWord('par', null)
+          break
+      }
+      continue
+    }
+
+    pos++
+    if (char === '\r' || char === '\n' || group.destination === 'skip') continue
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--
+      continue
+    }
+
+    if (group.destination === 'stylesheet' && char === ';') continue
+    if (char.charCodeAt(0) >= 0x80) {
+      pendingBytes.push(char.charCodeAt(0))
+    } else {
+      flushBytes()
+      emit(char === '\t' ? '\t' : char)
+    }
+  }
+
+  flushBytes()
+  if (runs.some((run) => run.text.trim())) finishParagraph()
+  flushTable()
+
+  return {
+    title: title.trim() || undefined,
+    blocks: blocks.filter((block) => block.type === 'table' || block.runs.some((run) => run.text.trim())),
+  }
+}
+
+/** Escape text for an RTF body: control characters, and everything outside ASCII as \uN? */
+const escapeRtf = (text: string): string => {
+  let out = ''
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const code = text.charCodeAt(i)
+    if (char === '\\' || char === '{' || char === '}') out += `\\${char}`
+    else if (char === '\n') out += '\\line '
+    else if (char === '\t') out += '\\tab '
+    else if (code < 0x20) continue
+    // Surrogate pairs are written as two \u escapes, as Word does; \uN takes a signed 16-bit value
+    else if (code > 0x7e) out += `\\u${code > 0x7fff ? code - 0x10000 : code}?`
+    else out += char
+  }
+  return out
+}
+
+const writeRuns = (runs: TextRun[]): string =>
+  runs
+    .map((run) => {
+      const text = escapeRtf(run.text)
+      if (!run.bold && !run.italic) return text
+      return `{${run.bold ? '\\b' : ''}${run.italic ? '\\i' : ''} ${text}}`
+    })
+    .join('')
+
+const HEADING_HALF_POINTS = [36, 32, 28, 26, 24, 24]
+const LIST_LEVELS = 9
+
+/**
+ * List table entry for one contiguous list. Each list gets its own definition
+ * and override so numbering restarts the way it does in the source document.
+ */
+const writeListDefinition = (id: number, ordered: boolean[]): string => {
+  const levels = Array.from({ length: LIST_LEVELS }, (_, level) => {
+    const indent = `\\fi-360\\li${360 * (level + 1)}`
+    return ordered[level]
+      ? `{\\listlevel\\levelnfc0\\leveljc0\\levelfollow0\\levelstartat1{\\leveltext\\'02\\'0${level}.;}{\\levelnumbers\\'01;}${indent}}`
+      : `{\\listlevel\\levelnfc23\\leveljc0\\levelfollow0\\levelstartat1{\\leveltext\\'01\\u8226 ?;}{\\levelnumbers;}${indent}}`
+  })
+  return `{\\list\\listtemplateid${id}${levels.join('')}\\listid${id}}`
+}
+
+export function writeRtf(document: DocumentModel): string {
+  // Group consecutive list items into lists, noting which levels are numbered
+  const listIds: number[] = []
+  const lists: boolean[][] = []
+  document.blocks.forEach((block, index) => {
+    if (block.type !== 'listItem') return
+    if (document.blocks[index - 1]?.type !== 'listItem') lists.push([])
+    lists[lists.length - 1][block.level] = block.ordered
+    listIds[index] = lists.length
+  })
+
+  const lines: string[] = [
+    '{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1',
+    '{\\fonttbl{\\f0\\fswiss\\fcharset0 Helvetica;}}',
+    '{\\stylesheet{\\s0 Normal;}' +
+      HEADING_HALF_POINTS.map((_, index) => `{\\s${index + 1}\\sbasedon0\\snext0 heading ${index + 1};}`).join('') +
+      '}',
+  ]
+  if (lists.length) {
+    lines.push(`{\\*\\listtable${lists.map((ordered, index) => writeListDefinition(index + 1, ordered)).join('')}}`)
+    lines.push(
+      `{\\*\\listoverridetable${lists.map((_, index) => `{\\listoverride\\listid${index + 1}\\listoverridecount0\\ls${index + 1}}`).join('')}}`
+    )
+  }
+  if (document.title) {
+    lines.push(`{\\info{\\title ${escapeRtf(document.title)}}}`)
+  }
+  lines.push('\\f0\\fs24')
+
+  const counters: number[] = []
+  document.blocks.forEach((block, index) => {
+    if (block.type !== 'listItem') counters.length = 0
+
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(block.level, 1), HEADING_HALF_POINTS.length)
+        lines.push(
+          `{\\pard\\s${level}\\outlinelevel${level - 1}\\sb240\\sa120\\keepn\\b\\fs${HEADING_HALF_POINTS[level - 1]} ` +
+            `${writeRuns(block.runs)}\\par}`
+        )
+        break
+      }
+      case 'paragraph':
+        lines.push(`{\\pard\\sa120 ${writeRuns(block.runs)}\\par}`)
+        break
+      case 'listItem': {
+        const level = Math.min(block.level, LIST_LEVELS - 1)
+        counters.length = level + 1
+        counters[level] = (counters[level] ?? 0) + 1
+        // \listtext repeats the marker for readers that do not understand \ls
+        const marker = block.ordered ? `${counters[level]}.` : '\\u8226 ?'
+        lines.push(
+          `{\\pard\\ls${listIds[index]}\\ilvl${level}\\fi-360\\li${360 * (level + 1)}\\sa60` +
+            `{\\listtext ${marker}\\tab}${writeRuns(block.runs)}\\par}`
+        )
+        break
+      }
+      case 'table': {
+        const columns = Math.max(1, ...block.rows.map((cells) => cells.length))
+        const cellWidth = Math.floor(9360 / columns)
+        const definition = Array.from({ length: columns }, (_, column) => `\\cellx${cellWidth * (column + 1)}`).join('')
+        for (const cells of block.rows) {
+          const padded = [...cells, ...Array.from({ length: columns - cells.length }, () => [])]
+          lines.push(
+            `\\trowd\\trgaph108${definition}` +
+              padded.map((cellRuns) => `\\pard\\intbl ${writeRuns(cellRuns).replace(/\\line /g, '\\par ')}\\cell `).join('') +
+              '\\row'
+          )
+        }
+        lines.push('\\pard')
+        break
+      }
+    }
+  })
+
+  lines.push('}')
+  return lines.join('\n')
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+
+import { decodeEntities, escapeXml } from './xml'
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml('<a & "b">')).toBe('&lt;a &amp; &quot;b&quot;&gt;')
+  })
+
+  it('drops characters XML 1.0 does not allow', () => {
+    expect(escapeXml('page\f\v\x00\x1bend')).toBe('pageend')
+    expect(escapeXml('lone \uD800 and \uDC00 surrogates')).toBe('lone  and  surrogates')
+    expect(escapeXml('\uFFFE\uFFFF')).toBe('')
+  })
+
+  it('keeps whitespace and characters outside the basic plane', () => {
+    expect(escapeXml('tab\tline\nreturn\r 😀')).toBe('tab\tline\nreturn\r 😀')
+  })
+})
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeEntities('&lt;a&gt; &amp; &#65;&#x1F600;')).toBe('<a> & A😀')
+  })
+
+  it('replaces references past the last code point instead of throwing', () => {
+    expect(decodeEntities('a&#x110000;b&#99999999;c')).toBe('a\uFFFDb\uFFFDc')
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Small non-validating XML parser for the document formats we read.
+ *
+ * DOMParser is not available inside Web Workers, so office packages are
+ * parsed with this instead. Namespaces are not resolved: element and
+ * attribute lookups go by local name, which is unambiguous for the
+ * vocabularies involved (WordprocessingML, OpenDocument).
+ */
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      if (Number.isNaN(code)) return match
+      // fromCodePoint throws past U+10FFFF, so such references become the replacement character
+      return code > 0x10ffff ? '\uFFFD' : String.fromCodePoint(code)
+    }
+    return ENTITIES[entity] ?? match
+  })
+
+/** Everything XML 1.0 forbids: most control characters, U+FFFE/U+FFFF and unpaired surrogates */
+const INVALID_XML_CHARACTERS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu
+
+/** Escape text for element content or a quoted attribute, dropping characters no XML parser accepts */
+export const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replace(/[<>&"]/g, (char) => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', '"': 'quot' }[char]};`)
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/** Find the '>' that closes a tag, skipping over quoted attribute values */
+const findTagEnd = (source: string, from: number): number => {
+  let quote = ''
+  for (let i = from; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === quote) quote = ''
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  let pos = 0
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, pos)
+    if (end < 0) throw new Error('Malformed XML: unterminated markup')
+    const content = source.slice(pos, end)
+    pos = end + terminator.length
+    return content
+  }
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos)
+    const textEnd = lt < 0 ? source.length : lt
+    if (textEnd > pos) {
+      stack[stack.length - 1].children.push(decodeEntities(source.slice(pos, textEnd)))
+    }
+    if (lt < 0) break
+    pos = lt
+
+    if (source.startsWith('<!--', pos)) {
+      pos += 4
+      skipPast('-->')
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      pos += 9
+      stack[stack.length - 1].children.push(skipPast(']]>'))
+    } else if (source.startsWith('<?', pos)) {
+      pos += 2
+      skipPast('?>')
+    } else if (source.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', pos)
+      const close = source.indexOf('>', pos)
+      const end = bracket >= 0 && bracket < close ? source.indexOf(']>', bracket) + 1 : close
+      if (end <= pos) throw new Error('Malformed XML: unterminated DOCTYPE')
+      pos = end + 1
+    } else if (source[pos + 1] === '/') {
+      const end = source.indexOf('>', pos)
+      if (end < 0) throw new Error('Malformed XML: unterminated end tag')
+      const name = source.slice(pos + 2, end).trim()
+      pos = end + 1
+      // Tolerate stray end tags by unwinding to the nearest matching element
+      const index = stack.map((element) => element.name).lastIndexOf(name)
+      if (index > 0) stack.length = index
+    } else {
+      const end = findTagEnd(source, pos + 1)
+      if (end < 0) throw new Error('Malformed XML: unterminated start tag')
+      const selfClosing = source[end - 1] === '/'
+      const body = source.slice(pos + 1, selfClosing ? end - 1 : end)
+      pos = end + 1
+
+      const nameEnd = body.search(/\s|$/)
+      const element: XmlElement = { name: body.slice(0, nameEnd), attributes: {}, children: [] }
+      for (const match of body.slice(nameEnd).matchAll(ATTRIBUTE_PATTERN)) {
+        element.attributes[match[1]] = decodeEntities(match[2] ?? match[3])
+      }
+
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  const documentElement = root.children.find((node): node is XmlElement => typeof node !== 'string')
+  if (!documentElement) {
+    throw new Error('Malformed XML: no root element')
+  }
+  return documentElement
+}
+
+export const localName = (name: string): string => name.slice(name.indexOf(':') + 1)
+
+export const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string'
+
+/** Child elements, optionally filtered by local name */
+export const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter(
+    (node): node is XmlElement => isElement(node) && (name === undefined || localName(node.name) === name)
+  )
+
+export const findChild = (element: XmlElement | undefined, name: string): XmlElement | undefined =>
+  element ? childElements(element, name)[0] : undefined
+
+/** Depth-first search for the first descendant with the given local name */
+export const findDescendant = (element: XmlElement, name: string): XmlElement | undefined => {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) return child
+    const found = findDescendant(child, name)
+    if (found) return found
+  }
+  return undefined
+}
+
+/** Attribute value looked up by local name */
+export const getAttribute = (element: XmlElement | undefined, name: string): string | undefined => {
+  if (!element) return undefined
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (localName(key) === name) return value
+  }
+  return undefined
+}
+
+export const textContent = (node: XmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(textContent).join('')
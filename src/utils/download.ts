@@ -0,0 +1,48 @@
+import { isAbortError } from './abort'
+
+/**
+ * Getting files out of the browser: single downloads through an anchor
+ * click, and large streams written straight to disk where possible.
+ */
+
+export function downloadUrl(url: string, name: string) {
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+}
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob)
+  downloadUrl(url, name)
+  // The click starts the download asynchronously, so give it a moment before letting go
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Save a stream under `name`. With a save picker the stream is written to
+ * disk as it is produced; otherwise it is collected into a Blob, which
+ * browsers page out to disk once it grows large. Resolves false if the user
+ * dismissed the picker.
+ */
+export async function saveStream(stream: ReadableStream<Uint8Array>, name: string, type: FilePickerAcceptType): Promise<boolean> {
+  if (window.showSaveFilePicker) {
+    let handle: FileSystemFileHandle
+    try {
+      handle = await window.showSaveFilePicker({ suggestedName: name, types: [type] })
+    } catch (error) {
+      if (isAbortError(error)) {
+        await stream.cancel()
+        return false
+      }
+      throw error
+    }
+    await stream.pipeTo(await handle.createWritable())
+    return true
+  }
+
+  downloadBlob(await new Response(stream).blob(), name)
+  return true
+}
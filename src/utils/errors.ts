@@ -0,0 +1,17 @@
+/**
+ * Errors a conversion may recover from when it is simply run again, e.g. a
+ * worker killed under memory pressure or an encoder that ran out of
+ * resources. Anything else (bad input, unsupported format) fails for good.
+ */
+export class RetryableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RetryableError'
+  }
+}
+
+/** DOMException names that describe a transient condition rather than bad input */
+const TRANSIENT_DOM_ERRORS = new Set(['NotReadableError', 'QuotaExceededError', 'TimeoutError', 'NetworkError'])
+
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof RetryableError || (error instanceof DOMException && TRANSIENT_DOM_ERRORS.has(error.name))
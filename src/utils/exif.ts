@@ -0,0 +1,131 @@
+import { crc32 } from './zip'
+
+/**
+ * Carrying EXIF metadata over to converted images. Canvas encoders drop all
+ * metadata, so the block is spliced back into the encoded JPEG, PNG or WebP
+ * file. `exif` is always the bare TIFF structure, starting at "II" or "MM".
+ */
+
+const ORIENTATION_TAG = 0x0112
+/** A JPEG segment length is 16 bits and counts itself and the "Exif\0\0" prefix */
+const MAX_JPEG_EXIF = 0xffff - 2 - 6
+const EXIF_PREFIX = [0x45, 0x78, 0x69, 0x66, 0, 0] // "Exif\0\0"
+
+const ascii = (text: string) => Array.from(text, (character) => character.charCodeAt(0))
+
+const concat = (...parts: ArrayLike<number>[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+const matches = (bytes: Uint8Array, at: number, text: string) =>
+  ascii(text).every((code, index) => bytes[at + index] === code)
+
+/**
+ * A copy of `exif` marked as upright. Decoders hand over pixels already turned
+ * for display, and viewers would turn them a second time otherwise.
+ */
+export function resetOrientation(exif: Uint8Array): Uint8Array {
+  const copy = exif.slice()
+  if (copy.length < 8) return copy
+  const view = new DataView(copy.buffer)
+  const littleEndian = copy[0] === 0x49
+  const ifd = view.getUint32(4, littleEndian)
+  if (ifd + 2 > copy.length) return copy
+  const count = view.getUint16(ifd, littleEndian)
+  for (let entry = ifd + 2; entry < ifd + 2 + count * 12 && entry + 12 <= copy.length; entry += 12) {
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, littleEndian)
+      break
+    }
+  }
+  return copy
+}
+
+/** An APP1 segment right after SOI, or after the JFIF APP0 segment when there is one */
+function embedInJpeg(bytes: Uint8Array, exif: Uint8Array): Uint8Array {
+  if (exif.length > MAX_JPEG_EXIF) return bytes
+  let at = 2
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) at = 4 + ((bytes[4] << 8) | bytes[5])
+  const length = 2 + EXIF_PREFIX.length + exif.length
+  const segment = concat([0xff, 0xe1, length >> 8, length & 0xff], EXIF_PREFIX, exif)
+  return concat(bytes.subarray(0, at), segment, bytes.subarray(at))
+}
+
+/** An eXIf chunk straight after IHDR, which keeps it ahead of the image data as PNG requires */
+function embedInPng(bytes: Uint8Array, exif: Uint8Array): Uint8Array {
+  const afterHeader = 8 + 8 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8) + 4
+  const chunk = new Uint8Array(12 + exif.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, exif.length)
+  chunk.set(ascii('eXIf'), 4)
+  chunk.set(exif, 8)
+  view.setUint32(8 + exif.length, crc32(chunk.subarray(4, 8 + exif.length)))
+  return concat(bytes.subarray(0, afterHeader), chunk, bytes.subarray(afterHeader))
+}
+
+/**
+ * WebP only allows metadata in the extended format, so a simple lossy or
+ * lossless file first gets a VP8X header describing its canvas.
+ */
+function embedInWebp(bytes: Uint8Array, exif: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let body: Uint8Array
+  if (matches(bytes, 12, 'VP8X')) {
+    body = bytes.slice(12)
+    body[8] |= 0x08
+  } else {
+    let width: number
+    let height: number
+    let alpha = false
+    if (matches(bytes, 12, 'VP8L')) {
+      const bits = view.getUint32(21, true)
+      width = (bits & 0x3fff) + 1
+      height = ((bits >> 14) & 0x3fff) + 1
+      alpha = ((bits >> 28) & 1) === 1
+    } else if (matches(bytes, 12, 'VP8 ')) {
+      width = view.getUint16(26, true) & 0x3fff
+      height = view.getUint16(28, true) & 0x3fff
+    } else {
+      return bytes
+    }
+    const header = new Uint8Array(18)
+    header.set(ascii('VP8X'))
+    header[4] = 10
+    header[8] = 0x08 | (alpha ? 0x10 : 0)
+    for (let i = 0; i < 3; i++) {
+      header[12 + i] = ((width - 1) >> (8 * i)) & 0xff
+      header[15 + i] = ((height - 1) >> (8 * i)) & 0xff
+    }
+    body = concat(header, bytes.subarray(12))
+  }
+
+  const exifHeader = new Uint8Array(8)
+  exifHeader.set(ascii('EXIF'))
+  new DataView(exifHeader.buffer).setUint32(4, exif.length, true)
+  // Chunks are padded to an even length
+  const padding = new Uint8Array(exif.length % 2)
+  const riff = new Uint8Array(12)
+  riff.set(bytes.subarray(0, 12))
+  new DataView(riff.buffer).setUint32(4, 4 + body.length + 8 + exif.length + padding.length, true)
+  return concat(riff, body, exifHeader, exif, padding)
+}
+
+const EMBEDDERS: Record<string, (bytes: Uint8Array, exif: Uint8Array) => Uint8Array> = {
+  'image/jpeg': embedInJpeg,
+  'image/png': embedInPng,
+  'image/webp': embedInWebp,
+}
+
+/** `blob` with `exif` added, or unchanged for formats without an EXIF slot */
+export async function embedExif(blob: Blob, exif: Uint8Array): Promise<Blob> {
+  const embed = EMBEDDERS[blob.type]
+  if (!embed) return blob
+  const bytes = embed(new Uint8Array(await blob.arrayBuffer()), exif)
+  return new Blob([bytes as BlobPart], { type: blob.type })
+}
@@ -1,7 +1,39 @@
+import { DEFAULT_PDF_DPI, openPdf, renderPdfPage } from './pdfRenderer'
+import { audioBufferToPcm, encodeWav } from './wav'
+import { createZip } from './zip'
+import { encodeRaster, hasRasterEncoder, type RasterOptions } from './rasterEncoders'
+import { convertTiffData } from './tiffConvert'
+import { convertHeifData } from './heifConvert'
+import { convertDocumentData } from './documents/convert'
+import { abortReason, onAbort } from './abort'
+import { RetryableError } from './errors'
+import { supportsOffscreenCanvas, supportsWorkers, workerPool } from '../workers/pool'
+
 export interface ConversionProgress {
   progress: number
   status: 'converting' | 'completed' | 'error'
   message?: string
+  /** Position within a multi-step conversion, when the route has more than one step */
+  step?: ConversionStepInfo
+}
+
+export interface ConversionStepInfo {
+  /** 0-based */
+  index: number
+  count: number
+  from: string
+  to: string
+}
+
+export interface ConversionOptions {
+  /** PDF → image: 1-based page to render, or 'all' for a ZIP with every page */
+  pdfPage?: number | 'all'
+  /** PDF → image: rendering resolution */
+  dpi?: number
+  /** TIFF → image or PDF: 1-based page, or 'all' for every page */
+  tiffPage?: number | 'all'
+  /** Image → GIF, BMP or TIFF: settings for the encoder that replaces the canvas */
+  raster?: RasterOptions
 }
 
 export class FileConverter {
@@ -14,16 +46,65 @@ export class FileConverter {
   async convertImage(
     file: File, 
     targetFormat: string, 
-    onProgress: (progress: ConversionProgress) => void
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {},
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    // Browsers cannot decode TIFF, so it has a decoder of its own
+    if (file.type === 'image/tiff' || /\.tiff?$/i.test(file.name)) {
+      return this.convertTiff(file, targetFormat, onProgress, options, signal)
+    }
+    // HEIC has no browser decoder outside Safari, and AVIF goes the same way so its EXIF is kept
+    if (/^image\/(heic|heif|avif)$/.test(file.type) || /\.(heic|heif|avif)$/i.test(file.name)) {
+      return this.convertHeif(file, targetFormat, onProgress, options, signal)
+    }
+
+    // Workers cannot decode SVG, which needs a document to render in
+    const isSvg = file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)
+    if (isSvg || !supportsOffscreenCanvas()) {
+      return this.convertImageOnMainThread(file, targetFormat, onProgress, options, signal)
+    }
+
+    try {
+      const data = await file.arrayBuffer()
+      return await workerPool.run({
+        kind: 'image',
+        data,
+        sourceType: file.type,
+        targetType: this.getMimeType(targetFormat),
+        quality: this.getImageQuality(targetFormat),
+        raster: options.raster
+      }, onProgress, signal)
+    } catch (error) {
+      onProgress({ progress: 0, status: 'error', message: 'Image conversion failed' })
+      throw error
+    }
+  }
+
+  private async convertImageOnMainThread(
+    file: File,
+    targetFormat: string,
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions,
+    signal?: AbortSignal
   ): Promise<Blob> {
     onProgress({ progress: 10, status: 'converting', message: 'Processing image...' })
 
+    const imageUrl = URL.createObjectURL(file)
+    let detachAbort = () => {}
+
     try {
       const canvas = document.createElement('canvas')
       const ctx = canvas.getContext('2d')!
       const img = new Image()
 
-      return new Promise((resolve, reject) => {
+      return await new Promise<Blob>((resolve, reject) => {
+        detachAbort = onAbort(signal, () => {
+          img.onload = img.onerror = null
+          img.src = ''
+          reject(abortReason(signal!))
+        })
+
         img.onload = () => {
           canvas.width = img.width
           canvas.height = img.height
@@ -32,44 +113,128 @@ export class FileConverter {
           onProgress({ progress: 50, status: 'converting', message: 'Converting format...' })
 
           // Convert to target format
-          const quality = targetFormat === 'jpeg' || targetFormat === 'jpg' ? 0.9 : undefined
+          const quality = this.getImageQuality(targetFormat)
           const mimeType = this.getMimeType(targetFormat)
 
+          if (hasRasterEncoder(mimeType)) {
+            try {
+              resolve(encodeRaster(mimeType, ctx.getImageData(0, 0, canvas.width, canvas.height), options.raster))
+              onProgress({ progress: 100, status: 'completed' })
+            } catch (error) {
+              reject(error)
+            }
+            return
+          }
+
           canvas.toBlob((blob) => {
+            if (signal?.aborted) return
             if (blob) {
               onProgress({ progress: 100, status: 'completed' })
               resolve(blob)
             } else {
-              reject(new Error('Failed to convert image'))
+              // toBlob yields null when the encoder runs out of memory
+              reject(new RetryableError('Failed to convert image'))
             }
           }, mimeType, quality)
         }
 
         img.onerror = () => reject(new Error('Failed to load image'))
-        img.src = URL.createObjectURL(file)
+        img.src = imageUrl
       })
     } catch (error) {
       onProgress({ progress: 0, status: 'error', message: 'Image conversion failed' })
       throw error
+    } finally {
+      detachAbort()
+      URL.revokeObjectURL(imageUrl)
+    }
+  }
+
+  async convertTiff(
+    file: File,
+    targetFormat: string,
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {},
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const conversion = {
+      targetFormat,
+      targetType: this.getMimeType(targetFormat),
+      page: options.tiffPage ?? 1,
+      quality: this.getImageQuality(targetFormat),
+      raster: options.raster
+    }
+
+    try {
+      const data = await file.arrayBuffer()
+      if (supportsOffscreenCanvas()) {
+        return await workerPool.run({ kind: 'tiff', data, name: file.name, conversion }, onProgress, signal)
+      }
+      signal?.throwIfAborted()
+      return await convertTiffData(file.name, data, conversion, onProgress)
+    } catch (error) {
+      onProgress({ progress: 0, status: 'error', message: 'TIFF conversion failed' })
+      throw error
+    }
+  }
+
+  async convertHeif(
+    file: File,
+    targetFormat: string,
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {},
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const conversion = {
+      targetType: this.getMimeType(targetFormat),
+      quality: this.getImageQuality(targetFormat),
+      raster: options.raster
+    }
+
+    try {
+      const data = await file.arrayBuffer()
+      if (supportsOffscreenCanvas()) {
+        return await workerPool.run({ kind: 'heif', data, conversion }, onProgress, signal)
+      }
+      signal?.throwIfAborted()
+      return await convertHeifData(data, conversion, onProgress)
+    } catch (error) {
+      onProgress({ progress: 0, status: 'error', message: 'HEIF conversion failed' })
+      throw error
     }
   }
 
   async convertVideo(
     file: File, 
     targetFormat: string, 
-    onProgress: (progress: ConversionProgress) => void
+    onProgress: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
   ): Promise<Blob> {
     // For now, we'll use a simple approach that works with the MediaRecorder API
     // This is a basic implementation that can handle some video format conversions
     onProgress({ progress: 10, status: 'converting', message: 'Processing video...' })
 
+    const videoUrl = URL.createObjectURL(file)
+    const video = document.createElement('video')
+    let stream: MediaStream | undefined
+    let mediaRecorder: MediaRecorder | undefined
+    let stopTimer: ReturnType<typeof setTimeout> | undefined
+    let detachAbort = () => {}
+
     try {
+      signal?.throwIfAborted()
+
       // Create a video element to load the source
-      const video = document.createElement('video')
-      video.src = URL.createObjectURL(file)
+      video.src = videoUrl
       video.muted = true
 
-      return new Promise((resolve, reject) => {
+      return await new Promise<Blob>((resolve, reject) => {
+        detachAbort = onAbort(signal, () => {
+          // Stopping the recorder fires onstop, which must not resolve a cancelled job
+          if (mediaRecorder) mediaRecorder.onstop = null
+          reject(abortReason(signal!))
+        })
+
         video.onloadedmetadata = async () => {
           try {
             onProgress({ progress: 30, status: 'converting', message: 'Setting up conversion...' })
@@ -85,7 +250,7 @@ export class FileConverter {
 
             // For basic conversion, we'll create a simple video using canvas
             // This is a simplified approach - in production you'd want proper video processing
-            const stream = canvas.captureStream(30) // 30 FPS
+            stream = canvas.captureStream(30) // 30 FPS
             
             // Get the appropriate MIME type for the target format
             const mimeType = this.getVideoMimeType(targetFormat)
@@ -94,40 +259,41 @@ export class FileConverter {
               throw new Error(`${targetFormat} format not supported by browser`)
             }
 
-            const mediaRecorder = new MediaRecorder(stream, { 
+            const recorder = new MediaRecorder(stream, { 
               mimeType,
               videoBitsPerSecond: 2500000 // 2.5 Mbps
             })
+            mediaRecorder = recorder
             
             const chunks: Blob[] = []
             
-            mediaRecorder.ondataavailable = (event) => {
+            recorder.ondataavailable = (event) => {
               if (event.data.size > 0) {
                 chunks.push(event.data)
               }
             }
 
-            mediaRecorder.onstop = () => {
+            recorder.onstop = () => {
               const blob = new Blob(chunks, { type: mimeType })
               onProgress({ progress: 100, status: 'completed' })
               resolve(blob)
             }
 
             // Start recording
-            mediaRecorder.start()
+            recorder.start()
 
             // Play video and draw frames to canvas
             video.currentTime = 0
             video.play()
 
             const drawFrame = () => {
+              if (signal?.aborted) return
               if (!video.paused && !video.ended) {
                 ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
                 requestAnimationFrame(drawFrame)
-              } else {
+              } else if (recorder.state === 'recording') {
                 // Video ended, stop recording
-                mediaRecorder.stop()
-                stream.getTracks().forEach(track => track.stop())
+                recorder.stop()
               }
             }
 
@@ -136,10 +302,9 @@ export class FileConverter {
             }
 
             // Set a timeout to prevent infinite processing
-            setTimeout(() => {
-              if (mediaRecorder.state === 'recording') {
-                mediaRecorder.stop()
-                stream.getTracks().forEach(track => track.stop())
+            stopTimer = setTimeout(() => {
+              if (recorder.state === 'recording') {
+                recorder.stop()
               }
             }, 30000) // 30 second max
 
@@ -154,24 +319,41 @@ export class FileConverter {
     } catch (error) {
       onProgress({ progress: 0, status: 'error', message: 'Video conversion failed' })
       throw error
+    } finally {
+      detachAbort()
+      clearTimeout(stopTimer)
+      if (mediaRecorder?.state === 'recording') mediaRecorder.stop()
+      stream?.getTracks().forEach(track => track.stop())
+      video.onloadedmetadata = video.onplay = video.onerror = null
+      video.pause()
+      video.removeAttribute('src')
+      video.load()
+      URL.revokeObjectURL(videoUrl)
     }
   }
 
   async convertAudio(
     file: File, 
     targetFormat: string, 
-    onProgress: (progress: ConversionProgress) => void
+    onProgress: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
   ): Promise<Blob> {
     onProgress({ progress: 10, status: 'converting', message: 'Processing audio...' })
 
+    // Use Web Audio API for basic audio conversion
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
+    let mediaRecorder: MediaRecorder | undefined
+    let stopTimer: ReturnType<typeof setTimeout> | undefined
+    let detachAbort = () => {}
+
     try {
-      // Use Web Audio API for basic audio conversion
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
       const arrayBuffer = await file.arrayBuffer()
+      signal?.throwIfAborted()
       
       onProgress({ progress: 30, status: 'converting', message: 'Decoding audio...' })
       
       const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+      signal?.throwIfAborted()
       
       onProgress({ progress: 60, status: 'converting', message: 'Converting format...' })
 
@@ -188,6 +370,7 @@ export class FileConverter {
       source.start()
 
       const renderedBuffer = await offlineContext.startRendering()
+      signal?.throwIfAborted()
 
       // Create a MediaStream from the audio buffer
       const mediaStreamDestination = audioContext.createMediaStreamDestination()
@@ -201,39 +384,91 @@ export class FileConverter {
         throw new Error(`${targetFormat} format not supported by browser`)
       }
 
-      return new Promise((resolve, reject) => {
-        const mediaRecorder = new MediaRecorder(mediaStreamDestination.stream, { mimeType })
+      return await new Promise<Blob>((resolve, reject) => {
+        const recorder = new MediaRecorder(mediaStreamDestination.stream, { mimeType })
+        mediaRecorder = recorder
         const chunks: Blob[] = []
 
-        mediaRecorder.ondataavailable = (event) => {
+        detachAbort = onAbort(signal, () => {
+          recorder.onstop = null
+          reject(abortReason(signal!))
+        })
+
+        recorder.ondataavailable = (event) => {
           chunks.push(event.data)
         }
 
-        mediaRecorder.onstop = () => {
+        recorder.onstop = () => {
           const blob = new Blob(chunks, { type: mimeType })
           onProgress({ progress: 100, status: 'completed' })
           resolve(blob)
         }
 
-        mediaRecorder.start()
+        recorder.start()
         sourceNode.start()
 
         // Stop recording after the audio duration
-        setTimeout(() => {
-          mediaRecorder.stop()
+        stopTimer = setTimeout(() => {
+          recorder.stop()
         }, (renderedBuffer.duration * 1000) + 1000) // Add 1 second buffer
       })
 
     } catch (error) {
       onProgress({ progress: 0, status: 'error', message: 'Audio conversion failed' })
       throw error
+    } finally {
+      detachAbort()
+      clearTimeout(stopTimer)
+      if (mediaRecorder?.state === 'recording') mediaRecorder.stop()
+      audioContext.close()
+    }
+  }
+
+  /** Decode the audio track of any audio or video file the browser can play and write it as PCM WAV */
+  async extractAudioToWav(
+    file: File,
+    onProgress: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    onProgress({ progress: 10, status: 'converting', message: 'Reading file...' })
+
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
+    try {
+      const arrayBuffer = await file.arrayBuffer()
+      signal?.throwIfAborted()
+
+      onProgress({ progress: 30, status: 'converting', message: 'Decoding audio...' })
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+      signal?.throwIfAborted()
+
+      const pcm = audioBufferToPcm(audioBuffer)
+      if (supportsWorkers()) {
+        // Copies, since the decoded buffer's own channel data cannot be transferred
+        return await workerPool.run({
+          kind: 'wav',
+          sampleRate: pcm.sampleRate,
+          channels: pcm.channels.map(channel => channel.slice())
+        }, onProgress, signal)
+      }
+
+      onProgress({ progress: 70, status: 'converting', message: 'Encoding WAV...' })
+      const blob = encodeWav(pcm)
+      onProgress({ progress: 100, status: 'completed' })
+      return blob
+    } catch (error) {
+      onProgress({ progress: 0, status: 'error', message: 'Audio extraction failed' })
+      throw error
+    } finally {
+      audioContext.close()
     }
   }
 
   async convertDocument(
     file: File, 
     targetFormat: string, 
-    onProgress: (progress: ConversionProgress) => void
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions = {},
+    signal?: AbortSignal
   ): Promise<Blob> {
     onProgress({ progress: 10, status: 'converting', message: 'Processing document...' })
 
@@ -241,25 +476,20 @@ export class FileConverter {
       const fileExtension = file.name.split('.').pop()?.toLowerCase()
 
       if (fileExtension === 'pdf' && (targetFormat === 'png' || targetFormat === 'jpg')) {
-        return await this.convertPdfToImage(file, targetFormat, onProgress)
-      }
-
-      if (fileExtension === 'txt' && targetFormat === 'pdf') {
-        return await this.convertTextToPdf(file, onProgress)
+        return await this.convertPdfToImage(file, targetFormat, onProgress, options, signal)
       }
 
-      // For other document conversions, we'll create a simple text-based conversion
-      const text = await this.extractTextFromFile(file)
-      
-      if (targetFormat === 'pdf') {
-        return await this.createPdfFromText(text, onProgress)
-      } else if (targetFormat === 'txt') {
-        const blob = new Blob([text], { type: 'text/plain' })
-        onProgress({ progress: 100, status: 'completed' })
-        return blob
+      // Everything else goes through the document model, off the main thread where possible
+      if (supportsWorkers()) {
+        return await workerPool.run({
+          kind: 'document',
+          data: await file.arrayBuffer(),
+          name: file.name,
+          targetFormat
+        }, onProgress, signal)
       }
-
-      throw new Error(`Conversion from ${fileExtension} to ${targetFormat} not supported`)
+      signal?.throwIfAborted()
+      return await convertDocumentData(file.name, file, targetFormat, onProgress)
 
     } catch (error) {
       onProgress({ progress: 0, status: 'error', message: 'Document conversion failed' })
@@ -270,147 +500,51 @@ export class FileConverter {
   private async convertPdfToImage(
     file: File, 
     targetFormat: string, 
-    onProgress: (progress: ConversionProgress) => void
+    onProgress: (progress: ConversionProgress) => void,
+    options: ConversionOptions,
+    signal?: AbortSignal
   ): Promise<Blob> {
-    onProgress({ progress: 30, status: 'converting', message: 'Reading PDF...' })
-
-    // For PDF to image conversion, we'll create a placeholder implementation
-    // In a real app, you'd use PDF.js or similar library
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
-    
-    canvas.width = 612 // Standard letter width
-    canvas.height = 792 // Standard letter height
-    
-    // Fill with white background
-    ctx.fillStyle = 'white'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-    
-    // Add placeholder content
-    ctx.fillStyle = 'black'
-    ctx.font = '24px Arial'
-    ctx.textAlign = 'center'
-    ctx.fillText('PDF Document', canvas.width / 2, 100)
-    
-    ctx.font = '16px Arial'
-    ctx.fillText(`Original file: ${file.name}`, canvas.width / 2, 150)
-    ctx.fillText(`Size: ${this.formatFileSize(file.size)}`, canvas.width / 2, 180)
-    ctx.fillText('PDF to Image conversion', canvas.width / 2, 220)
-    
-    // Add a border
-    ctx.strokeStyle = '#ccc'
-    ctx.lineWidth = 2
-    ctx.strokeRect(50, 50, canvas.width - 100, canvas.height - 100)
-
-    onProgress({ progress: 90, status: 'converting', message: 'Finalizing image...' })
-
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          onProgress({ progress: 100, status: 'completed' })
-          resolve(blob)
-        } else {
-          reject(new Error('Failed to create image from PDF'))
-        }
-      }, this.getMimeType(targetFormat), 0.9)
-    })
-  }
+    onProgress({ progress: 20, status: 'converting', message: 'Reading PDF...' })
 
-  private async convertTextToPdf(
-    file: File, 
-    onProgress: (progress: ConversionProgress) => void
-  ): Promise<Blob> {
-    onProgress({ progress: 30, status: 'converting', message: 'Reading text...' })
-
-    const text = await file.text()
-    return await this.createPdfFromText(text, onProgress)
-  }
-
-  private async createPdfFromText(
-    text: string, 
-    onProgress: (progress: ConversionProgress) => void
-  ): Promise<Blob> {
-    onProgress({ progress: 50, status: 'converting', message: 'Creating PDF...' })
-
-    // Simple PDF creation using canvas and jsPDF-like approach
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
-    
-    canvas.width = 612 // Letter width in points
-    canvas.height = 792 // Letter height in points
-    
-    // Fill with white background
-    ctx.fillStyle = 'white'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-    
-    // Set up text rendering
-    ctx.fillStyle = 'black'
-    ctx.font = '12px Arial'
-    
-    const margin = 50
-    const lineHeight = 16
-    const maxWidth = canvas.width - (margin * 2)
-    
-    // Split text into lines
-    const lines = this.wrapText(text, maxWidth, ctx)
-    
-    onProgress({ progress: 70, status: 'converting', message: 'Adding text to PDF...' })
-    
-    let y = margin + lineHeight
-    for (const line of lines.slice(0, 40)) { // Limit to first 40 lines for demo
-      if (y > canvas.height - margin) break
-      ctx.fillText(line, margin, y)
-      y += lineHeight
-    }
-
-    onProgress({ progress: 90, status: 'converting', message: 'Finalizing PDF...' })
-
-    // Convert canvas to blob (this is a simplified PDF - in reality you'd use a proper PDF library)
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          onProgress({ progress: 100, status: 'completed' })
-          resolve(blob)
-        } else {
-          reject(new Error('Failed to create PDF'))
-        }
-      }, 'image/png') // For demo purposes, we'll create a PNG instead of actual PDF
-    })
-  }
+    const pdf = await openPdf(await file.arrayBuffer())
+    const mimeType = this.getMimeType(targetFormat)
+    const dpi = options.dpi ?? DEFAULT_PDF_DPI
 
-  private async extractTextFromFile(file: File): Promise<string> {
-    const fileExtension = file.name.split('.').pop()?.toLowerCase()
-    
-    if (fileExtension === 'txt') {
-      return await file.text()
-    }
-    
-    // For other file types, return a placeholder
-    return `Content extracted from ${file.name}\n\nThis is a placeholder text extraction. In a full implementation, this would contain the actual extracted content from the ${fileExtension?.toUpperCase()} file.\n\nFile size: ${this.formatFileSize(file.size)}\nFile type: ${fileExtension?.toUpperCase()}`
-  }
-
-  private wrapText(text: string, maxWidth: number, ctx: CanvasRenderingContext2D): string[] {
-    const words = text.split(' ')
-    const lines: string[] = []
-    let currentLine = ''
+    try {
+      if (options.pdfPage !== 'all') {
+        onProgress({ progress: 50, status: 'converting', message: 'Rendering page...' })
+        const blob = await renderPdfPage(pdf, options.pdfPage ?? 1, mimeType, dpi, signal)
+        onProgress({ progress: 100, status: 'completed' })
+        return blob
+      }
 
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word
-      const metrics = ctx.measureText(testLine)
-      
-      if (metrics.width > maxWidth && currentLine) {
-        lines.push(currentLine)
-        currentLine = word
-      } else {
-        currentLine = testLine
+      const baseName = file.name.replace(/\.[^.]+$/, '')
+      const digits = String(pdf.numPages).length
+      const pages = []
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        signal?.throwIfAborted()
+        onProgress({
+          progress: 20 + Math.round((70 * (pageNumber - 1)) / pdf.numPages),
+          status: 'converting',
+          message: `Rendering page ${pageNumber} of ${pdf.numPages}...`
+        })
+        pages.push({
+          name: `${baseName}-${String(pageNumber).padStart(digits, '0')}.${targetFormat}`,
+          data: await renderPdfPage(pdf, pageNumber, mimeType, dpi, signal)
+        })
       }
-    }
 
-    if (currentLine) {
-      lines.push(currentLine)
+      onProgress({ progress: 90, status: 'converting', message: 'Packaging pages...' })
+      const zip = await createZip(pages)
+      onProgress({ progress: 100, status: 'completed' })
+      return zip
+    } finally {
+      await pdf.destroy()
     }
+  }
 
-    return lines
+  private getImageQuality(format: string): number | undefined {
+    return format === 'jpeg' || format === 'jpg' ? 0.9 : undefined
   }
 
   private getMimeType(format: string): string {
@@ -429,6 +563,8 @@ export class FileConverter {
       'ogg': 'audio/ogg',
       'pdf': 'application/pdf',
       'txt': 'text/plain',
+      'rtf': 'application/rtf',
+      'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     }
     return mimeTypes[format.toLowerCase()] || 'application/octet-stream'
   }
@@ -458,14 +594,6 @@ export class FileConverter {
     return mimeTypes[format.toLowerCase()] || 'audio/mp4'
   }
 
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
-
   async isFFmpegReady(): Promise<boolean> {
     // Since we're not using FFmpeg anymore, always return true
     return true
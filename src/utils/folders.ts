@@ -0,0 +1,64 @@
+/**
+ * Reading folders the user drops or picks. Every file keeps its path
+ * relative to the chosen folder, including the folder's own name.
+ */
+
+export interface PickedFile {
+  file: File
+  /** Relative path using '/' as separator, e.g. "holiday/day1/beach.jpg" */
+  path: string
+}
+
+/** "holiday/day1/beach.jpg" → "holiday/day1/"; '' for files at the top or without a path */
+export const parentFolder = (path?: string) => (path ? path.slice(0, path.lastIndexOf('/') + 1) : '')
+
+const entryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+/** readEntries returns directory listings in batches; an empty batch means the end */
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (!batch.length) return entries
+    entries.push(...batch)
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry): Promise<PickedFile[]> {
+  if (entry.isFile) {
+    return [{ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') }]
+  }
+  const children = await readAllEntries(entry as FileSystemDirectoryEntry)
+  return (await Promise.all(children.map(walkEntry))).flat()
+}
+
+/**
+ * Entries must be taken from a drop while the event is being dispatched;
+ * afterwards the DataTransfer is emptied. Walking them can happen later.
+ */
+export const getDroppedEntries = (dataTransfer: DataTransfer): FileSystemEntry[] =>
+  Array.from(dataTransfer.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+
+export const readDroppedEntries = async (entries: FileSystemEntry[]): Promise<PickedFile[]> =>
+  (await Promise.all(entries.map(walkEntry))).flat()
+
+export async function readDirectoryHandle(directory: FileSystemDirectoryHandle, prefix = directory.name): Promise<PickedFile[]> {
+  const files: PickedFile[] = []
+  for await (const handle of directory.values()) {
+    const path = `${prefix}/${handle.name}`
+    if (handle.kind === 'file') {
+      files.push({ file: await handle.getFile(), path })
+    } else {
+      files.push(...(await readDirectoryHandle(handle, path)))
+    }
+  }
+  return files
+}
+
+/** Files from an `<input webkitdirectory>`, which already carry their relative paths */
+export const readDirectoryInput = (files: FileList): PickedFile[] =>
+  Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || file.name }))
@@ -0,0 +1,282 @@
+import { ByteWriter, hasAlpha, type RgbaImage } from './raster'
+
+/**
+ * GIF89a encoder. Canvas `toBlob` has no GIF encoder in any browser, so the
+ * pixels are reduced to a palette with median cut, optionally dithered with
+ * Floyd–Steinberg error diffusion, and compressed with GIF's variable-width
+ * LZW. Free of DOM APIs, so it runs in the conversion worker too.
+ */
+
+export interface GifOptions {
+  /** Palette size, 2–256, including the entry reserved for transparency */
+  colors?: number
+  dither?: boolean
+}
+
+/** Pixels less opaque than this become fully transparent; GIF has no partial alpha */
+const ALPHA_THRESHOLD = 128
+const MAX_CODE = 4096
+
+/** Colours are binned at 5 bits per channel: 32768 bins keep quantizing fast and lose little */
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+
+interface Histogram {
+  counts: Uint32Array
+  sums: Float64Array
+}
+
+function buildHistogram({ data }: RgbaImage): Histogram {
+  const counts = new Uint32Array(32768)
+  const sums = new Float64Array(32768 * 3)
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < ALPHA_THRESHOLD) continue
+    const bin = binOf(data[i], data[i + 1], data[i + 2])
+    counts[bin]++
+    sums[bin * 3] += data[i]
+    sums[bin * 3 + 1] += data[i + 1]
+    sums[bin * 3 + 2] += data[i + 2]
+  }
+  return { counts, sums }
+}
+
+const channelOf = (bin: number, channel: number) => (bin >> (10 - channel * 5)) & 31
+
+interface Box {
+  bins: number[]
+  pixels: number
+  /** Channel with the widest spread and that spread */
+  channel: number
+  range: number
+}
+
+function makeBox(bins: number[], counts: Uint32Array): Box {
+  const min = [31, 31, 31]
+  const max = [0, 0, 0]
+  let pixels = 0
+  for (const bin of bins) {
+    pixels += counts[bin]
+    for (let channel = 0; channel < 3; channel++) {
+      const value = channelOf(bin, channel)
+      if (value < min[channel]) min[channel] = value
+      if (value > max[channel]) max[channel] = value
+    }
+  }
+  const ranges = max.map((value, channel) => value - min[channel])
+  const channel = ranges.indexOf(Math.max(...ranges))
+  return { bins, pixels, channel, range: ranges[channel] }
+}
+
+/**
+ * Median cut: repeatedly split the box that is both populous and spread out
+ * at the pixel-weighted median of its widest channel. Returns RGB triplets.
+ */
+function medianCut({ counts, sums }: Histogram, maxColors: number): Uint8Array {
+  const used: number[] = []
+  counts.forEach((count, bin) => count && used.push(bin))
+  if (!used.length) return new Uint8Array(0)
+
+  const boxes = [makeBox(used, counts)]
+  while (boxes.length < maxColors) {
+    let target = -1
+    for (let i = 0; i < boxes.length; i++) {
+      const box = boxes[i]
+      if (box.bins.length < 2) continue
+      if (target < 0 || box.range * box.pixels > boxes[target].range * boxes[target].pixels) target = i
+    }
+    if (target < 0) break
+
+    const { bins, channel, pixels } = boxes[target]
+    bins.sort((a, b) => channelOf(a, channel) - channelOf(b, channel))
+    let split = 1
+    for (let seen = counts[bins[0]]; split < bins.length - 1 && seen < pixels / 2; split++) {
+      seen += counts[bins[split]]
+    }
+    boxes.splice(target, 1, makeBox(bins.slice(0, split), counts), makeBox(bins.slice(split), counts))
+  }
+
+  const palette = new Uint8Array(boxes.length * 3)
+  boxes.forEach((box, index) => {
+    let r = 0
+    let g = 0
+    let b = 0
+    for (const bin of box.bins) {
+      r += sums[bin * 3]
+      g += sums[bin * 3 + 1]
+      b += sums[bin * 3 + 2]
+    }
+    palette[index * 3] = Math.round(r / box.pixels)
+    palette[index * 3 + 1] = Math.round(g / box.pixels)
+    palette[index * 3 + 2] = Math.round(b / box.pixels)
+  })
+  return palette
+}
+
+/** Nearest palette entry per colour bin, worked out on first use */
+function createMatcher(palette: Uint8Array) {
+  const cache = new Int16Array(32768).fill(-1)
+  return (r: number, g: number, b: number): number => {
+    const bin = binOf(r, g, b)
+    if (cache[bin] >= 0) return cache[bin]
+    let best = 0
+    let bestDistance = Infinity
+    for (let i = 0; i < palette.length; i += 3) {
+      const dr = palette[i] - r
+      const dg = palette[i + 1] - g
+      const db = palette[i + 2] - b
+      const distance = dr * dr + dg * dg + db * db
+      if (distance < bestDistance) {
+        bestDistance = distance
+        best = i / 3
+      }
+    }
+    cache[bin] = best
+    return best
+  }
+}
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value)
+
+function mapPixels(image: RgbaImage, palette: Uint8Array, transparentIndex: number, dither: boolean): Uint8Array {
+  const { width, height, data } = image
+  const indices = new Uint8Array(width * height)
+  const match = createMatcher(palette)
+  // Error carried into the current and the next row, three channels per pixel
+  let current = new Float32Array((width + 2) * 3)
+  let next = new Float32Array((width + 2) * 3)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x
+      const offset = pixel * 4
+      if (data[offset + 3] < ALPHA_THRESHOLD) {
+        indices[pixel] = transparentIndex
+        continue
+      }
+      if (!dither) {
+        indices[pixel] = match(data[offset], data[offset + 1], data[offset + 2])
+        continue
+      }
+
+      const e = (x + 1) * 3
+      const r = clampByte(data[offset] + current[e])
+      const g = clampByte(data[offset + 1] + current[e + 1])
+      const b = clampByte(data[offset + 2] + current[e + 2])
+      const index = match(r, g, b)
+      indices[pixel] = index
+
+      const errors = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]]
+      for (let channel = 0; channel < 3; channel++) {
+        const error = errors[channel]
+        current[e + 3 + channel] += (error * 7) / 16
+        next[e - 3 + channel] += (error * 3) / 16
+        next[e + channel] += (error * 5) / 16
+        next[e + 3 + channel] += error / 16
+      }
+    }
+    ;[current, next] = [next, current]
+    next.fill(0)
+  }
+  return indices
+}
+
+/** GIF's LZW: codes are written least significant bit first and start one bit wider than the palette */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new ByteWriter()
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  let bits = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bits |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      out.byte(bits & 0xff)
+      bits >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i]
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === MAX_CODE) {
+      // The table is full; start over rather than keep matching stale strings
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = indices[i]
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) out.byte(bits & 0xff)
+  return out.result()
+}
+
+export function encodeGif(image: RgbaImage, options: GifOptions = {}): Blob {
+  const { width, height } = image
+  if (width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+    throw new Error(`GIF images must be 1–65535 pixels on each side (got ${width}×${height})`)
+  }
+
+  const hasTransparency = hasAlpha(image, ALPHA_THRESHOLD)
+
+  const maxColors = Math.min(Math.max(Math.round(options.colors ?? 256), 2), 256)
+  const palette = medianCut(buildHistogram(image), hasTransparency ? maxColors - 1 : maxColors)
+  const colorCount = palette.length / 3
+  // The transparent entry goes after the real colours
+  const transparentIndex = hasTransparency ? colorCount : -1
+  const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(colorCount + (hasTransparency ? 1 : 0), 2))))
+  const indices = mapPixels(image, palette, transparentIndex, options.dither ?? false)
+
+  const out = new ByteWriter()
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]) // "GIF89a"
+  out.uint16(width)
+  out.uint16(height)
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)) // global colour table of 2^tableBits entries
+  out.byte(0) // background colour index
+  out.byte(0) // pixel aspect ratio
+  out.bytes(palette)
+  for (let i = colorCount; i < 1 << tableBits; i++) out.bytes([0, 0, 0])
+
+  if (hasTransparency) {
+    // Graphic control extension naming the transparent index
+    out.bytes([0x21, 0xf9, 0x04, 0x01, 0x00, 0x00, transparentIndex, 0x00])
+  }
+
+  out.byte(0x2c) // image descriptor
+  out.uint16(0)
+  out.uint16(0)
+  out.uint16(width)
+  out.uint16(height)
+  out.byte(0) // no local colour table, not interlaced
+
+  const minCodeSize = Math.max(2, tableBits)
+  out.byte(minCodeSize)
+  const compressed = lzwEncode(indices, minCodeSize)
+  for (let i = 0; i < compressed.length; i += 255) {
+    const block = compressed.subarray(i, i + 255)
+    out.byte(block.length)
+    out.bytes(block)
+  }
+  out.byte(0) // block terminator
+  out.byte(0x3b) // trailer
+
+  return new Blob([out.result()], { type: 'image/gif' })
+}
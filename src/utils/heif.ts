@@ -0,0 +1,248 @@
+/**
+ * HEIF container parsing (HEIC, AVIF). Only the metadata box is read: which
+ * codec the primary image uses, how it must be rotated or mirrored for
+ * display, and its EXIF block. The pixels are left to the codec decoders.
+ */
+
+export type HeifCodec = 'hevc' | 'av1'
+
+/** `rotate` is anticlockwise in degrees; a horizontal flip swaps left and right */
+export type HeifTransform = { rotate: 90 | 180 | 270 } | { flip: 'horizontal' | 'vertical' }
+
+export interface HeifInfo {
+  codec: HeifCodec
+  /** In the order they apply to the decoded image */
+  transforms: HeifTransform[]
+  /** The EXIF block from its TIFF header on, as JPEG APP1 and PNG eXIf carry it */
+  exif?: Uint8Array
+}
+
+interface Box {
+  type: string
+  /** Payload, after the box header */
+  start: number
+  end: number
+}
+
+interface ItemLocation {
+  /** 0 is an offset into the file, 1 into the `idat` box */
+  constructionMethod: number
+  extents: { offset: number; length: number }[]
+}
+
+const CODECS: Record<string, HeifCodec> = { hvc1: 'hevc', av01: 'av1' }
+
+class Reader {
+  private view: DataView
+  position: number
+  private bytes: Uint8Array
+
+  constructor(bytes: Uint8Array, position: number) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    this.position = position
+  }
+
+  uint(size: number): number {
+    const { position, view } = this
+    this.position += size
+    switch (size) {
+      case 0:
+        return 0
+      case 1:
+        return view.getUint8(position)
+      case 2:
+        return view.getUint16(position)
+      case 4:
+        return view.getUint32(position)
+      case 8:
+        return Number(view.getBigUint64(position))
+      default:
+        throw new Error(`Unsupported field size ${size} in HEIF file`)
+    }
+  }
+
+  fourcc(): string {
+    this.position += 4
+    return String.fromCharCode(...this.bytes.subarray(this.position - 4, this.position))
+  }
+}
+
+function* readBoxes(bytes: Uint8Array, start: number, end: number): Generator<Box> {
+  const reader = new Reader(bytes, start)
+  while (reader.position + 8 <= end) {
+    const boxStart = reader.position
+    let size = reader.uint(4)
+    const type = reader.fourcc()
+    if (size === 1) size = reader.uint(8)
+    else if (size === 0) size = end - boxStart
+    if (size < reader.position - boxStart || boxStart + size > end) throw new Error('Corrupt HEIF file')
+    yield { type, start: reader.position, end: boxStart + size }
+    reader.position = boxStart + size
+  }
+}
+
+const findBox = (bytes: Uint8Array, start: number, end: number, type: string) => {
+  for (const box of readBoxes(bytes, start, end)) {
+    if (box.type === type) return box
+  }
+  return undefined
+}
+
+/** Full boxes start with a version byte and 24 bits of flags */
+const readFullBoxHeader = (reader: Reader) => {
+  const version = reader.uint(1)
+  const flags = (reader.uint(1) << 16) | reader.uint(2)
+  return { version, flags }
+}
+
+function readItemTypes(bytes: Uint8Array, box: Box): Map<number, string> {
+  const reader = new Reader(bytes, box.start)
+  const { version } = readFullBoxHeader(reader)
+  reader.uint(version === 0 ? 2 : 4) // entry count
+  const types = new Map<number, string>()
+  for (const entry of readBoxes(bytes, reader.position, box.end)) {
+    if (entry.type !== 'infe') continue
+    const entryReader = new Reader(bytes, entry.start)
+    const entryVersion = readFullBoxHeader(entryReader).version
+    // Versions 0 and 1 predate item types
+    if (entryVersion < 2) continue
+    const id = entryReader.uint(entryVersion === 2 ? 2 : 4)
+    entryReader.uint(2) // protection index
+    types.set(id, entryReader.fourcc())
+  }
+  return types
+}
+
+function readItemLocations(bytes: Uint8Array, box: Box): Map<number, ItemLocation> {
+  const reader = new Reader(bytes, box.start)
+  const { version } = readFullBoxHeader(reader)
+  const sizes = reader.uint(1)
+  const offsetSize = sizes >> 4
+  const lengthSize = sizes & 15
+  const moreSizes = reader.uint(1)
+  const baseOffsetSize = moreSizes >> 4
+  const indexSize = version > 0 ? moreSizes & 15 : 0
+  const count = reader.uint(version < 2 ? 2 : 4)
+
+  const locations = new Map<number, ItemLocation>()
+  for (let item = 0; item < count; item++) {
+    const id = reader.uint(version < 2 ? 2 : 4)
+    const constructionMethod = version > 0 ? reader.uint(2) & 15 : 0
+    reader.uint(2) // data reference index
+    const baseOffset = reader.uint(baseOffsetSize)
+    const extentCount = reader.uint(2)
+    const extents = []
+    for (let extent = 0; extent < extentCount; extent++) {
+      reader.uint(indexSize)
+      const offset = baseOffset + reader.uint(offsetSize)
+      extents.push({ offset, length: reader.uint(lengthSize) })
+    }
+    locations.set(id, { constructionMethod, extents })
+  }
+  return locations
+}
+
+/** Properties associated with `itemId`, in association order */
+function readItemProperties(bytes: Uint8Array, box: Box, itemId: number): Box[] {
+  const container = findBox(bytes, box.start, box.end, 'ipco')
+  if (!container) return []
+  const properties = [...readBoxes(bytes, container.start, container.end)]
+
+  const associated: Box[] = []
+  for (const map of readBoxes(bytes, box.start, box.end)) {
+    if (map.type !== 'ipma') continue
+    const reader = new Reader(bytes, map.start)
+    const { version, flags } = readFullBoxHeader(reader)
+    const entries = reader.uint(4)
+    for (let entry = 0; entry < entries; entry++) {
+      const id = reader.uint(version < 1 ? 2 : 4)
+      const count = reader.uint(1)
+      for (let association = 0; association < count; association++) {
+        // The top bit marks the property as essential; the rest is a 1-based index
+        const index = flags & 1 ? reader.uint(2) & 0x7fff : reader.uint(1) & 0x7f
+        if (id === itemId && index > 0 && properties[index - 1]) associated.push(properties[index - 1])
+      }
+    }
+  }
+  return associated
+}
+
+function readTransforms(bytes: Uint8Array, properties: Box[]): HeifTransform[] {
+  const transforms: HeifTransform[] = []
+  for (const property of properties) {
+    if (property.type === 'irot') {
+      const angle = (bytes[property.start] & 3) * 90
+      if (angle) transforms.push({ rotate: angle as 90 | 180 | 270 })
+    } else if (property.type === 'imir') {
+      // Axis 0 mirrors top to bottom, axis 1 left to right (as libheif reads it)
+      transforms.push({ flip: bytes[property.start] & 1 ? 'horizontal' : 'vertical' })
+    }
+  }
+  return transforms
+}
+
+function readItemData(bytes: Uint8Array, location: ItemLocation, itemData?: Box): Uint8Array {
+  const base = location.constructionMethod === 1 ? (itemData?.start ?? 0) : 0
+  const parts = location.extents.map(({ offset, length }) => bytes.subarray(base + offset, base + offset + length))
+  if (parts.length === 1) return parts[0]
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    data.set(part, position)
+    position += part.length
+  }
+  return data
+}
+
+const isTiffHeader = (data: Uint8Array, at: number) =>
+  (data[at] === 0x49 && data[at + 1] === 0x49 && data[at + 2] === 0x2a && data[at + 3] === 0) ||
+  (data[at] === 0x4d && data[at + 1] === 0x4d && data[at + 2] === 0 && data[at + 3] === 0x2a)
+
+/** An Exif item starts with the offset of the TIFF header, usually just past an "Exif\0\0" prefix */
+function readExif(data: Uint8Array): Uint8Array | undefined {
+  if (data.length < 8) return undefined
+  const start = 4 + new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0)
+  if (isTiffHeader(data, start)) return data.subarray(start)
+  // Some writers get the offset wrong; fall back to the "Exif\0\0" marker
+  for (let at = 4; at + 10 <= data.length && at < 64; at++) {
+    if (String.fromCharCode(...data.subarray(at, at + 4)) === 'Exif' && isTiffHeader(data, at + 6)) {
+      return data.subarray(at + 6)
+    }
+  }
+  return undefined
+}
+
+export function readHeif(bytes: Uint8Array): HeifInfo {
+  const meta = findBox(bytes, 0, bytes.length, 'meta')
+  if (!meta) throw new Error('Not a HEIF file')
+  // `meta` is a full box: its children start after the version and flags
+  const children = [...readBoxes(bytes, meta.start + 4, meta.end)]
+  const child = (type: string) => children.find((box) => box.type === type)
+
+  const itemTypes = child('iinf') ? readItemTypes(bytes, child('iinf')!) : new Map<number, string>()
+  const locations = child('iloc') ? readItemLocations(bytes, child('iloc')!) : new Map<number, ItemLocation>()
+  const primary = child('pitm')
+  let primaryId = 0
+  if (primary) {
+    const reader = new Reader(bytes, primary.start)
+    primaryId = reader.uint(readFullBoxHeader(reader).version === 0 ? 2 : 4)
+  }
+
+  // A grid primary image is tiled from coded items, so fall back to the first one found
+  const codec = CODECS[itemTypes.get(primaryId) ?? ''] ?? [...itemTypes.values()].map((type) => CODECS[type]).find(Boolean)
+  if (!codec) {
+    const types = [...new Set(itemTypes.values())].join(', ')
+    throw new Error(`HEIF images coded as ${types || 'unknown items'} are not supported`)
+  }
+
+  const properties = child('iprp') ? readItemProperties(bytes, child('iprp')!, primaryId) : []
+  const exifId = [...itemTypes].find(([, type]) => type === 'Exif')?.[0]
+  const exifLocation = exifId === undefined ? undefined : locations.get(exifId)
+
+  return {
+    codec,
+    transforms: readTransforms(bytes, properties),
+    exif: exifLocation ? readExif(readItemData(bytes, exifLocation, child('idat'))) : undefined,
+  }
+}
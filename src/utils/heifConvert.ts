@@ -0,0 +1,38 @@
+import { embedExif, resetOrientation } from './exif'
+import type { ConversionProgress } from './fileConverter'
+import { readHeif } from './heif'
+import { decodeHeif } from './heifDecoder'
+import { encodeImageData, type RasterOptions } from './rasterEncoders'
+
+/**
+ * HEIC and AVIF photos to ordinary images. The codecs are WebAssembly, so
+ * apart from the canvas encoders this runs the same in the conversion worker
+ * and on the main thread.
+ */
+
+export interface HeifConversion {
+  /** MIME type of the target format */
+  targetType: string
+  quality?: number
+  raster?: RasterOptions
+}
+
+export async function convertHeifData(
+  data: ArrayBuffer,
+  conversion: HeifConversion,
+  onProgress: (progress: ConversionProgress) => void
+): Promise<Blob> {
+  onProgress({ progress: 10, status: 'converting', message: 'Reading HEIF...' })
+  const bytes = new Uint8Array(data)
+  const info = readHeif(bytes)
+
+  onProgress({ progress: 20, status: 'converting', message: 'Decoding image...' })
+  const image = await decodeHeif(bytes, info)
+
+  onProgress({ progress: 70, status: 'converting', message: 'Converting format...' })
+  let blob = await encodeImageData(image, conversion.targetType, conversion.quality, conversion.raster)
+  if (info.exif) blob = await embedExif(blob, resetOrientation(info.exif))
+
+  onProgress({ progress: 100, status: 'completed' })
+  return blob
+}
@@ -0,0 +1,84 @@
+import type { HeifDecoder } from 'libheif-js/libheif-wasm/libheif-bundle.mjs'
+import type { HeifInfo, HeifTransform } from './heif'
+import type { RgbaImage } from './raster'
+
+/**
+ * Pixel decoding for HEIF: libheif (with libde265) for HEVC-coded HEIC, and
+ * libavif for AV1-coded AVIF. Both are WebAssembly builds bundled with the
+ * app and only loaded when such a file turns up, as together they weigh
+ * several megabytes.
+ */
+
+let hevcDecoder: Promise<HeifDecoder> | undefined
+/** libheif frees a file's images when the next one is decoded, so decodes take turns */
+let hevcQueue: Promise<unknown> = Promise.resolve()
+
+function decodeHevc(bytes: Uint8Array): Promise<RgbaImage> {
+  hevcDecoder ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs').then(
+    ({ default: libheif }) => new (libheif().HeifDecoder)()
+  )
+  const decoded = hevcQueue.then(async () => {
+    const images = (await hevcDecoder!).decode(bytes)
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0]
+    if (!image) throw new Error('The HEIC file contains no image libheif can read')
+    try {
+      const width = image.get_width()
+      const height = image.get_height()
+      const target = { width, height, data: new Uint8ClampedArray(width * height * 4) }
+      // libheif applies the rotation and mirroring itself
+      const result = await new Promise<typeof target | null>((resolve) => image.display(target, resolve))
+      if (!result) throw new Error('Failed to decode HEIC image')
+      return result
+    } finally {
+      images.forEach((candidate) => candidate.free())
+    }
+  })
+  hevcQueue = decoded.catch(() => {})
+  return decoded
+}
+
+async function decodeAv1(bytes: Uint8Array, transforms: HeifTransform[]): Promise<RgbaImage> {
+  const { default: decode } = await import('@jsquash/avif/decode')
+  const image = await decode(bytes.slice().buffer)
+  if (!image) throw new Error('Failed to decode AVIF image')
+  // libavif leaves the rotation and mirroring to the caller
+  return transforms.reduce(applyTransform, { width: image.width, height: image.height, data: image.data })
+}
+
+function applyTransform(image: RgbaImage, transform: HeifTransform): RgbaImage {
+  const { width, height, data } = image
+  const turned = 'rotate' in transform && transform.rotate !== 180
+  const target = {
+    width: turned ? height : width,
+    height: turned ? width : height,
+    data: new Uint8ClampedArray(data.length),
+  }
+  // Where the pixel at (x, y) lands; rotations are anticlockwise
+  const place =
+    'flip' in transform
+      ? transform.flip === 'horizontal'
+        ? (x: number, y: number) => [width - 1 - x, y]
+        : (x: number, y: number) => [x, height - 1 - y]
+      : transform.rotate === 90
+        ? (x: number, y: number) => [y, width - 1 - x]
+        : transform.rotate === 180
+          ? (x: number, y: number) => [width - 1 - x, height - 1 - y]
+          : (x: number, y: number) => [height - 1 - y, x]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [targetX, targetY] = place(x, y)
+      const from = (y * width + x) * 4
+      const to = (targetY * target.width + targetX) * 4
+      target.data[to] = data[from]
+      target.data[to + 1] = data[from + 1]
+      target.data[to + 2] = data[from + 2]
+      target.data[to + 3] = data[from + 3]
+    }
+  }
+  return target
+}
+
+/** Decode the primary image of a HEIF file, turned and mirrored for display */
+export const decodeHeif = (bytes: Uint8Array, info: HeifInfo): Promise<RgbaImage> =>
+  info.codec === 'hevc' ? decodeHevc(bytes) : decodeAv1(bytes, info.transforms)
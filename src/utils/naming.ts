@@ -0,0 +1,135 @@
+import type { OptionValues } from '../converters'
+import { crc32 } from './zip'
+
+/**
+ * Output file names built from a template such as "{name}-{date}.{ext}".
+ * Tokens are replaced, the result is made safe on every common file system,
+ * and the target extension is added when the template leaves it out.
+ */
+
+export const DEFAULT_NAME_TEMPLATE = '{name}.{ext}'
+
+export const NAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{name}', description: 'Source file name without its extension' },
+  { token: '{ext}', description: 'Target format extension' },
+  { token: '{index}', description: 'Position in the batch, starting at 1' },
+  { token: '{date}', description: 'Conversion date, YYYY-MM-DD' },
+  { token: '{width}', description: 'Image width in pixels' },
+  { token: '{height}', description: 'Image height in pixels' },
+  { token: '{preset}', description: 'Options changed from their defaults' },
+  { token: '{hash8}', description: 'First 8 hex digits of a checksum of the output' },
+]
+
+export interface NameValues {
+  name: string
+  ext: string
+  index: number
+  date: Date
+  /** Unknown for outputs that are not images */
+  width?: number
+  height?: number
+  preset: string
+  hash8?: string
+}
+
+/** Characters Windows forbids; macOS and Linux only forbid '/' (and ':' in Finder) */
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*]/g
+/** Device names Windows reserves regardless of extension */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i
+/** Most file systems cap names at 255 bytes */
+const MAX_NAME_BYTES = 255
+
+export const getBaseName = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.')
+  return dot > 0 ? fileName.slice(0, dot) : fileName
+}
+
+const isControlCharacter = (character: string) => character.charCodeAt(0) < 0x20 || character === '\x7f'
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length
+
+export function sanitizeFileName(name: string): string {
+  let safe = Array.from(name, (character) => (isControlCharacter(character) ? '_' : character))
+    .join('')
+    .replace(ILLEGAL_CHARACTERS, '_')
+    // Windows drops trailing dots and spaces, which would silently rename the file
+    .replace(/[. ]+$/, '')
+    .trim()
+  if (!safe || /^\.+$/.test(safe)) safe = 'output'
+  if (RESERVED_NAMES.test(safe)) safe = `_${safe}`
+
+  const dot = safe.lastIndexOf('.')
+  const extension = dot > 0 ? safe.slice(dot) : ''
+  let base = dot > 0 ? safe.slice(0, dot) : safe
+  while (byteLength(base + extension) > MAX_NAME_BYTES && base.length > 1) {
+    base = base.slice(0, -1)
+  }
+  return base + extension
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+/** Replace the tokens in `template` and make the result a valid file name */
+export function renderNameTemplate(template: string, values: NameValues): string {
+  const replacements: Record<string, string> = {
+    name: values.name,
+    ext: values.ext,
+    index: String(values.index),
+    date: formatDate(values.date),
+    width: values.width === undefined ? '' : String(values.width),
+    height: values.height === undefined ? '' : String(values.height),
+    preset: values.preset,
+    hash8: values.hash8 ?? '',
+  }
+  let name = template.replace(/\{(\w+)\}/g, (match, token: string) => replacements[token] ?? match)
+  if (!name.toLowerCase().endsWith(`.${values.ext.toLowerCase()}`)) name += `.${values.ext}`
+  return sanitizeFileName(name)
+}
+
+/** Options that differ from their defaults, e.g. "quality-high_dpi-300" */
+export const describeOptions = (options: OptionValues, defaults: OptionValues) =>
+  Object.entries(options)
+    .filter(([key, value]) => defaults[key] !== value)
+    .map(([key, value]) => `${key}-${value}`)
+    .join('_')
+
+const usesToken = (template: string, ...tokens: string[]) => tokens.some((token) => template.includes(`{${token}}`))
+
+async function getImageSize(blob: Blob): Promise<{ width: number; height: number } | undefined> {
+  if (!blob.type.startsWith('image/') || typeof createImageBitmap === 'undefined') return undefined
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const size = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return size
+  } catch {
+    // Formats the browser cannot decode (e.g. TIFF) simply have no size
+    return undefined
+  }
+}
+
+/** CRC-32 streams through the blob, so large outputs never need to be in memory at once */
+async function checksum(blob: Blob): Promise<string> {
+  const reader = blob.stream().getReader()
+  let crc = 0
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    crc = crc32(value, crc)
+  }
+  return crc.toString(16).padStart(8, '0')
+}
+
+/** Fill in the values that need the output itself, skipping any the template does not use */
+export async function measureOutput(
+  template: string,
+  blob: Blob
+): Promise<Pick<NameValues, 'width' | 'height' | 'hash8'>> {
+  const [size, hash8] = await Promise.all([
+    usesToken(template, 'width', 'height') ? getImageSize(blob) : undefined,
+    usesToken(template, 'hash8') ? checksum(blob) : undefined,
+  ])
+  return { width: size?.width, height: size?.height, hash8 }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+
+import type { ConversionJob } from '../scheduler/scheduler'
+import { getArchiveEntries } from './outputArchive'
+
+const jobWithOutputs = (id: string, names: string[]): ConversionJob => ({
+  id,
+  file: new File(['source'], `${id}.jpg`, { type: 'image/jpeg' }),
+  originalFormat: 'jpg',
+  targetFormat: 'png',
+  options: {},
+  category: 'image',
+  priority: 'normal',
+  status: 'completed',
+  progress: 100,
+  attempt: 0,
+  createdAt: 0,
+  outputs: names.map((name, index) => ({
+    id: `${id}-${index}`,
+    targetFormat: 'png',
+    name,
+    size: 1,
+    createdAt: 0,
+    duration: 0,
+    blob: new Blob(['x'], { type: 'image/png' }),
+  })),
+})
+
+describe('getArchiveEntries', () => {
+  it('numbers repeated names past any name already in the archive', () => {
+    const jobs = [jobWithOutputs('first', ['a.png', 'a (2).png']), jobWithOutputs('second', ['a.png', 'a.png'])]
+    const names = getArchiveEntries(jobs, 'flat', 'auto').map((entry) => entry.name)
+    expect(names).toEqual(['a.png', 'a (2).png', 'a (3).png', 'a (4).png'])
+
+    const later = [jobWithOutputs('first', ['a.png', 'a.png']), jobWithOutputs('second', ['a (2).png'])]
+    const laterNames = getArchiveEntries(later, 'flat', 'auto').map((entry) => entry.name)
+    expect(new Set(laterNames).size).toBe(3)
+  })
+
+  it('numbers names within each folder of the layout', () => {
+    const jobs = [jobWithOutputs('first', ['a.png']), { ...jobWithOutputs('second', ['a.png']), category: 'document' as const }]
+    const names = getArchiveEntries(jobs, 'category', 'auto').map((entry) => entry.name)
+    expect(names).toEqual(['image/a.png', 'document/a.png'])
+  })
+})
@@ -0,0 +1,83 @@
+import type { ConversionJob } from '../scheduler/scheduler'
+import { parentFolder } from './folders'
+import { numberedName } from './format'
+import type { ZipStreamEntry } from './zip'
+
+/**
+ * Bundling every kept output of the queue into one ZIP download.
+ */
+
+export type ArchiveLayout = 'flat' | 'category' | 'format' | 'source'
+export type ArchiveCompression = 'auto' | 'store' | 'deflate'
+
+export const ARCHIVE_LAYOUTS: { value: ArchiveLayout; label: string }[] = [
+  { value: 'flat', label: 'Flat' },
+  { value: 'category', label: 'By category' },
+  { value: 'format', label: 'By target format' },
+  { value: 'source', label: 'Original folders' },
+]
+
+export const ARCHIVE_COMPRESSIONS: { value: ArchiveCompression; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'store', label: 'Store' },
+  { value: 'deflate', label: 'Deflate' },
+]
+
+/** Formats that are compressed already; deflating them again costs time and saves nothing */
+const COMPRESSED_FORMATS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic',
+  'mp4', 'webm', 'mkv', 'mov', 'avi', 'flv', 'wmv',
+  'mp3', 'aac', 'm4a', 'ogg', 'opus', 'flac', 'wma',
+  'docx', 'xlsx', 'pptx', 'odt', 'zip', 'gz',
+])
+
+const shouldCompress = (name: string, compression: ArchiveCompression) => {
+  if (compression !== 'auto') return compression === 'deflate'
+  const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase()
+  return !COMPRESSED_FORMATS.has(extension)
+}
+
+const getFolder = (job: ConversionJob, targetFormat: string, layout: ArchiveLayout) => {
+  switch (layout) {
+    case 'category':
+      return `${job.category}/`
+    case 'format':
+      return `${targetFormat}/`
+    case 'source':
+      // Files that did not come out of an archive or folder stay at the top
+      return parentFolder(job.path)
+    default:
+      return ''
+  }
+}
+
+export function getArchiveEntries(
+  jobs: ConversionJob[],
+  layout: ArchiveLayout,
+  compression: ArchiveCompression
+): ZipStreamEntry[] {
+  // Every name written so far, including ones that merely look numbered, like "a (2).png"
+  const taken = new Set<string>()
+  const entries: ZipStreamEntry[] = []
+
+  for (const job of jobs) {
+    for (const output of job.outputs) {
+      if (!output.blob) continue
+
+      const folder = getFolder(job, output.targetFormat, layout)
+      const path = `${folder}${output.name}`
+      let name = path
+      for (let count = 2; taken.has(name); count++) name = numberedName(path, count)
+      taken.add(name)
+
+      entries.push({
+        name,
+        data: output.blob,
+        lastModified: new Date(output.createdAt),
+        compress: shouldCompress(output.name, compression),
+      })
+    }
+  }
+
+  return entries
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { writeToDirectory } from './outputDirectory'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+/** An in-memory folder whose every call yields, as the real API does */
+function createDirectory() {
+  const files = new Map<string, Blob>()
+  const directory = {
+    getDirectoryHandle: async () => directory,
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      await tick()
+      if (!files.has(name) && !options?.create) throw new DOMException('Not found', 'NotFoundError')
+      return {
+        createWritable: async () => {
+          await tick()
+          return {
+            write: async (blob: Blob) => {
+              await tick()
+              files.set(name, blob)
+            },
+            close: async () => {},
+            abort: async () => {},
+          }
+        },
+      }
+    },
+  }
+  return { handle: directory as unknown as FileSystemDirectoryHandle, files }
+}
+
+describe('writeToDirectory', () => {
+  it('numbers the second of two same-named outputs written at once', async () => {
+    const { handle, files } = createDirectory()
+    const written = await Promise.all([
+      writeToDirectory(handle, 'a.webp', new Blob(['first']), 'rename'),
+      writeToDirectory(handle, 'a.webp', new Blob(['second']), 'rename'),
+    ])
+    expect(written).toEqual(['a.webp', 'a (2).webp'])
+    expect(await files.get('a.webp')?.text()).toBe('first')
+    expect(await files.get('a (2).webp')?.text()).toBe('second')
+  })
+
+  it('skips the second of two same-named outputs written at once', async () => {
+    const { handle, files } = createDirectory()
+    const written = await Promise.all([
+      writeToDirectory(handle, 'a.webp', new Blob(['first']), 'skip'),
+      writeToDirectory(handle, 'a.webp', new Blob(['second']), 'skip'),
+    ])
+    expect(written).toEqual(['a.webp', null])
+    expect(await files.get('a.webp')?.text()).toBe('first')
+  })
+})
@@ -0,0 +1,92 @@
+import { numberedName } from './format'
+
+/**
+ * Writing converted files into a folder the user picked, through the File
+ * System Access API. Only Chromium-based browsers offer it; elsewhere
+ * outputs are downloaded as before.
+ */
+
+/** What to do when the folder already holds a file of the same name */
+export type CollisionPolicy = 'rename' | 'overwrite' | 'skip'
+
+export const COLLISION_POLICIES: { value: CollisionPolicy; label: string }[] = [
+  { value: 'rename', label: 'Add a number' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'skip', label: 'Skip' },
+]
+
+export const supportsOutputDirectory = () => typeof window !== 'undefined' && !!window.showDirectoryPicker
+
+const PERMISSION: FileSystemHandlePermissionDescriptor = { mode: 'readwrite' }
+
+/**
+ * Check write access to a folder. Prompting is only allowed during a user
+ * gesture, so `request` must only be set from a click handler.
+ */
+export async function hasWriteAccess(directory: FileSystemDirectoryHandle, request = false): Promise<boolean> {
+  if ((await directory.queryPermission(PERMISSION)) === 'granted') return true
+  return request && (await directory.requestPermission(PERMISSION)) === 'granted'
+}
+
+async function exists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await directory.getFileHandle(name)
+    return true
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') return false
+    // TypeMismatchError: a folder already has the name
+    if (error instanceof DOMException && error.name === 'TypeMismatchError') return true
+    throw error
+  }
+}
+
+async function writeFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  blob: Blob,
+  policy: CollisionPolicy
+): Promise<string | null> {
+  const folders = path.split('/').filter(Boolean)
+  let name = folders.pop() ?? 'output'
+  let directory = root
+  for (const folder of folders) {
+    directory = await directory.getDirectoryHandle(folder, { create: true })
+  }
+
+  if (policy !== 'overwrite' && (await exists(directory, name))) {
+    if (policy === 'skip') return null
+    let count = 2
+    while (await exists(directory, numberedName(name, count))) count++
+    name = numberedName(name, count)
+  }
+
+  const writable = await (await directory.getFileHandle(name, { create: true })).createWritable()
+  try {
+    await writable.write(blob)
+    await writable.close()
+  } catch (error) {
+    await writable.abort()
+    throw error
+  }
+  return [...folders, name].join('/')
+}
+
+/** Writes already under way; the next one waits for them */
+let pendingWrites: Promise<unknown> = Promise.resolve()
+
+/**
+ * Write `blob` to `path` under `root`, creating folders on the way.
+ * Returns the path actually written, or null when the file was skipped.
+ * Writes run one at a time: checking for a name and creating the file are
+ * separate steps, and two outputs of the same name must not both find it free.
+ */
+export function writeToDirectory(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  blob: Blob,
+  policy: CollisionPolicy
+): Promise<string | null> {
+  const write = pendingWrites.then(() => writeFile(root, path, blob, policy))
+  pendingWrites = write.catch(() => {})
+  return write
+}
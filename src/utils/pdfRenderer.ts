@@ -0,0 +1,73 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { onAbort } from './abort'
+import { RetryableError } from './errors'
+
+export const DEFAULT_PDF_DPI = 150
+
+/** PDF user space is defined in points, 72 per inch */
+const POINTS_PER_INCH = 72
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null
+
+// pdf.js is large, so it is only fetched the first time a PDF is opened
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+      return pdfjs
+    })
+  }
+  return pdfjsPromise
+}
+
+export async function openPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs()
+  return pdfjs.getDocument({ data: new Uint8Array(data) }).promise
+}
+
+/** Render one page (1-based) of an open document to an image blob */
+export async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  mimeType: string,
+  dpi = DEFAULT_PDF_DPI,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (pageNumber < 1 || pageNumber > pdf.numPages) {
+    throw new Error(`Page ${pageNumber} does not exist (document has ${pdf.numPages} pages)`)
+  }
+
+  const page = await pdf.getPage(pageNumber)
+  try {
+    const viewport = page.getViewport({ scale: dpi / POINTS_PER_INCH })
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+
+    // JPEG has no alpha channel, so always paint onto an opaque white page
+    const renderTask = page.render({ canvas, viewport, background: 'white' })
+    const detachAbort = onAbort(signal, () => renderTask.cancel())
+    try {
+      await renderTask.promise
+    } catch (error) {
+      // A cancelled render rejects with pdf.js's own exception; surface the abort instead
+      signal?.throwIfAborted()
+      throw error
+    } finally {
+      detachAbort()
+    }
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new RetryableError(`Failed to render page ${pageNumber}`))
+        }
+      }, mimeType, 0.9)
+    })
+  } finally {
+    page.cleanup()
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Minimal PDF 1.4 writer.
+ *
+ * Text is set in the standard 14 Type 1 fonts (Helvetica family) with
+ * WinAnsiEncoding, so no font programs need to be embedded and the output
+ * opens in any conforming PDF reader. Image pages embed Flate-compressed
+ * samples as image XObjects.
+ */
+
+export type PdfFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic'
+
+export interface PdfTextBlock {
+  text: string
+  style?: PdfFontStyle
+  fontSize?: number
+  /** Extra space in points above the block (ignored at the top of a page) */
+  spaceBefore?: number
+  /** Extra space in points below the block */
+  spaceAfter?: number
+  /** Left indent in points */
+  indent?: number
+}
+
+export interface PdfPageSetup {
+  width: number
+  height: number
+  margin: number
+}
+
+export const LETTER_PAGE: PdfPageSetup = { width: 612, height: 792, margin: 50 }
+
+interface PdfFont {
+  resource: string
+  baseFont: string
+  widths: number[]
+}
+
+// Advance widths (1/1000 em) for WinAnsi codes 32-126, from the Adobe AFM files.
+// The oblique faces share the metrics of their upright counterparts.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+const FONTS: Record<PdfFontStyle, PdfFont> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique', widths: HELVETICA_WIDTHS },
+  boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique', widths: HELVETICA_BOLD_WIDTHS },
+}
+
+// Unicode code points that WinAnsiEncoding places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+}
+
+const LINE_SPACING = 1.2
+
+/** Map a string onto WinAnsi byte values (one char per byte); unmappable characters become '?' */
+const toWinAnsi = (text: string): string => {
+  let out = ''
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      out += char
+    } else if (WIN_ANSI_EXTRAS[code] !== undefined) {
+      out += String.fromCharCode(WIN_ANSI_EXTRAS[code])
+    } else {
+      out += '?'
+    }
+  }
+  return out
+}
+
+const measure = (encoded: string, font: PdfFont, size: number): number => {
+  let width = 0
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i)
+    width += code >= 32 && code <= 126 ? font.widths[code - 32] : 556
+  }
+  return (width * size) / 1000
+}
+
+const escapeLiteral = (encoded: string): string => encoded.replace(/[\\()]/g, (match) => `\\${match}`)
+
+const latin1Bytes = (str: string): Uint8Array => {
+  const bytes = new Uint8Array(str.length)
+  for (let i = 0; i < str.length; i++) {
+    bytes[i] = str.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString()
+
+/**
+ * Low-level object store that serializes indirect objects, the
+ * cross-reference table and the trailer.
+ */
+export class PdfBuilder {
+  private objects: (Uint8Array[] | null)[] = []
+
+  /** Reserve an object number so it can be referenced before its body is known */
+  reserve(): number {
+    this.objects.push(null)
+    return this.objects.length
+  }
+
+  set(id: number, body: string): void {
+    this.objects[id - 1] = [latin1Bytes(body)]
+  }
+
+  add(body: string): number {
+    const id = this.reserve()
+    this.set(id, body)
+    return id
+  }
+
+  addStream(dictionary: string, data: Uint8Array, id = this.reserve()): number {
+    this.objects[id - 1] = [
+      latin1Bytes(`<<${dictionary ? ` ${dictionary}` : ''} /Length ${data.length} >>\nstream\n`),
+      data,
+      latin1Bytes('\nendstream'),
+    ]
+    return id
+  }
+
+  build(rootId: number, infoId?: number): Blob {
+    const parts: Uint8Array[] = []
+    const offsets: number[] = []
+    let offset = 0
+    const push = (bytes: Uint8Array) => {
+      parts.push(bytes)
+      offset += bytes.length
+    }
+
+    push(latin1Bytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'))
+
+    this.objects.forEach((body, index) => {
+      if (!body) {
+        throw new Error(`PDF object ${index + 1} was reserved but never written`)
+      }
+      offsets.push(offset)
+      push(latin1Bytes(`${index + 1} 0 obj\n`))
+      body.forEach(push)
+      push(latin1Bytes('\nendobj\n'))
+    })
+
+    const xrefOffset = offset
+    let xref = `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`
+    for (const objectOffset of offsets) {
+      xref += `${objectOffset.toString().padStart(10, '0')} 00000 n \n`
+    }
+    const info = infoId ? ` /Info ${infoId} 0 R` : ''
+    xref += `trailer\n<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R${info} >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+    push(latin1Bytes(xref))
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' })
+  }
+}
+
+interface PlacedLine {
+  font: PdfFont
+  size: number
+  x: number
+  y: number
+  text: string
+}
+
+/** Break one hard line into lines that fit `maxWidth`, splitting words that are wider than a line */
+const wrapLine = (encoded: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = []
+  let current = ''
+
+  for (const token of encoded.split(/( +)/)) {
+    if (!token) continue
+    const candidate = current + token
+    if (measure(candidate, font, size) <= maxWidth) {
+      current = candidate
+      continue
+    }
+
+    if (token.trim() === '') {
+      // Whitespace at a break point is dropped
+      lines.push(current)
+      current = ''
+      continue
+    }
+
+    if (current.trim()) {
+      lines.push(current.trimEnd())
+      current = ''
+    }
+
+    let word = token
+    while (measure(word, font, size) > maxWidth) {
+      let fit = 1
+      while (fit < word.length && measure(word.slice(0, fit + 1), font, size) <= maxWidth) {
+        fit++
+      }
+      lines.push(word.slice(0, fit))
+      word = word.slice(fit)
+    }
+    current = word
+  }
+
+  lines.push(current.trimEnd())
+  return lines
+}
+
+const layoutPages = (blocks: PdfTextBlock[], setup: PdfPageSetup): PlacedLine[][] => {
+  const pages: PlacedLine[][] = [[]]
+  const top = setup.height - setup.margin
+  let y = top
+
+  const newPage = () => {
+    pages.push([])
+    y = top
+  }
+
+  for (const block of blocks) {
+    const font = FONTS[block.style ?? 'regular']
+    const size = block.fontSize ?? 12
+    const leading = size * LINE_SPACING
+    const indent = block.indent ?? 0
+    const maxWidth = setup.width - setup.margin * 2 - indent
+
+    if (y < top) {
+      y -= block.spaceBefore ?? 0
+    }
+
+    const hardLines = block.text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+    for (const hardLine of hardLines) {
+      // A form feed in the source starts a new page
+      const segments = hardLine.split('\f')
+      segments.forEach((segment, segmentIndex) => {
+        if (segmentIndex > 0 && pages[pages.length - 1].length > 0) {
+          newPage()
+        }
+        for (const line of wrapLine(toWinAnsi(segment), font, size, maxWidth)) {
+          if (y - leading < setup.margin) {
+            newPage()
+          }
+          y -= leading
+          if (line) {
+            pages[pages.length - 1].push({ font, size, x: setup.margin + indent, y: y + (leading - size), text: line })
+          }
+        }
+      })
+    }
+
+    y -= block.spaceAfter ?? 0
+  }
+
+  return pages
+}
+
+const pageContent = (lines: PlacedLine[]): string => {
+  const ops: string[] = ['BT']
+  let currentFont = ''
+  for (const line of lines) {
+    const fontKey = `${line.font.resource} ${line.size}`
+    if (fontKey !== currentFont) {
+      ops.push(`/${line.font.resource} ${formatNumber(line.size)} Tf`)
+      currentFont = fontKey
+    }
+    ops.push(`1 0 0 1 ${formatNumber(line.x)} ${formatNumber(line.y)} Tm`)
+    ops.push(`(${escapeLiteral(line.text)}) Tj`)
+  }
+  ops.push('ET')
+  return ops.join('\n')
+}
+
+/** Write the page tree, catalog and document info, then serialize */
+function finishDocument(builder: PdfBuilder, catalogId: number, pagesId: number, pageIds: number[], title?: string): Blob {
+  builder.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+  builder.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+
+  const titleEntry = title ? ` /Title (${escapeLiteral(toWinAnsi(title))})` : ''
+  const infoId = builder.add(`<< /Producer (Universal File Converter)${titleEntry} >>`)
+
+  return builder.build(catalogId, infoId)
+}
+
+/** Typeset text blocks into a paginated PDF, adding as many pages as the content needs */
+export function createPdfFromBlocks(
+  blocks: PdfTextBlock[],
+  options: { title?: string; page?: PdfPageSetup } = {}
+): Blob {
+  const setup = options.page ?? LETTER_PAGE
+  const builder = new PdfBuilder()
+
+  const catalogId = builder.reserve()
+  const pagesId = builder.reserve()
+
+  const fontIds = Object.values(FONTS).map((font) => ({
+    font,
+    id: builder.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+  }))
+  const fontResources = fontIds.map(({ font, id }) => `/${font.resource} ${id} 0 R`).join(' ')
+
+  const pageIds = layoutPages(blocks, setup).map((lines) => {
+    const contentId = builder.addStream('', latin1Bytes(pageContent(lines)))
+    return builder.add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${setup.width} ${setup.height}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    )
+  })
+
+  return finishDocument(builder, catalogId, pagesId, pageIds, options.title)
+}
+
+/** Typeset plain text into a paginated PDF, keeping its line breaks */
+export function createTextPdf(text: string, options: { title?: string; page?: PdfPageSetup } = {}): Blob {
+  return createPdfFromBlocks([{ text }], options)
+}
+
+export interface PdfImage {
+  width: number
+  height: number
+  colorSpace: 'DeviceRGB' | 'DeviceGray'
+  /** 1 for black-and-white images, with each row padded to a whole byte */
+  bitsPerComponent: 1 | 8
+  /** Samples row by row, zlib-compressed for /FlateDecode */
+  data: Uint8Array
+  /** Page size in points; the image fills the whole page */
+  pageWidth: number
+  pageHeight: number
+}
+
+/** One image per page, e.g. the pages of a scanned or faxed document */
+export function createImagePdf(images: PdfImage[], options: { title?: string } = {}): Blob {
+  const builder = new PdfBuilder()
+  const catalogId = builder.reserve()
+  const pagesId = builder.reserve()
+
+  const pageIds = images.map((image) => {
+    const imageId = builder.addStream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /${image.colorSpace} /BitsPerComponent ${image.bitsPerComponent} /Filter /FlateDecode`,
+      image.data
+    )
+    const width = formatNumber(image.pageWidth)
+    const height = formatNumber(image.pageHeight)
+    const contentId = builder.addStream('', latin1Bytes(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`))
+    return builder.add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    )
+  })
+
+  return finishDocument(builder, catalogId, pagesId, pageIds, options.title)
+}
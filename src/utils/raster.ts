@@ -0,0 +1,44 @@
+/** Pixel data and byte helpers shared by the encoders the canvas lacks (GIF, BMP, TIFF) */
+
+export interface RgbaImage {
+  width: number
+  height: number
+  /** Four bytes per pixel, as returned by `getImageData` */
+  data: Uint8ClampedArray
+}
+
+/** True if any pixel is less than fully opaque */
+export const hasAlpha = ({ data }: RgbaImage, below = 255) => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < below) return true
+  }
+  return false
+}
+
+/** Append-only byte buffer that grows as needed */
+export class ByteWriter {
+  private buffer = new Uint8Array(4096)
+  length = 0
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = value
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i])
+  }
+
+  uint16(value: number) {
+    this.byte(value & 0xff)
+    this.byte(value >> 8)
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length)
+  }
+}
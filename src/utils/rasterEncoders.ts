@@ -0,0 +1,59 @@
+import { encodeBmp, type BmpOptions } from './bmp'
+import { RetryableError } from './errors'
+import { encodeGif, type GifOptions } from './gif'
+import type { RgbaImage } from './raster'
+import { encodeTiff, type TiffOptions } from './tiff'
+
+/** Settings for the encoders that stand in for the canvas, keyed by format */
+export interface RasterOptions {
+  gif?: GifOptions
+  bmp?: BmpOptions
+  tiff?: TiffOptions
+}
+
+const ENCODERS: Record<string, (image: RgbaImage, options: RasterOptions) => Blob> = {
+  'image/gif': (image, options) => encodeGif(image, options.gif),
+  'image/bmp': (image, options) => encodeBmp(image, options.bmp),
+  'image/tiff': (image, options) => encodeTiff(image, options.tiff),
+}
+
+/**
+ * Canvas `toBlob` silently answers with a PNG for types it cannot encode, so
+ * for these the pixels are read back and encoded here instead.
+ */
+export const hasRasterEncoder = (mimeType: string) => mimeType in ENCODERS
+
+export const encodeRaster = (mimeType: string, image: RgbaImage, options: RasterOptions = {}) =>
+  ENCODERS[mimeType](image, options)
+
+/** Encode decoded pixels as any image type, through the canvas where it has an encoder */
+export async function encodeImageData(
+  image: RgbaImage,
+  mimeType: string,
+  quality?: number,
+  options: RasterOptions = {}
+): Promise<Blob> {
+  if (hasRasterEncoder(mimeType)) return encodeRaster(mimeType, image, options)
+
+  const imageData = new ImageData(image.data as Uint8ClampedArray<ArrayBuffer>, image.width, image.height)
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(image.width, image.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('OffscreenCanvas 2D context is unavailable')
+    ctx.putImageData(imageData, 0, 0)
+    return canvas.convertToBlob({ type: mimeType, quality })
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0)
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      // toBlob yields null when the encoder runs out of memory
+      (blob) => (blob ? resolve(blob) : reject(new RetryableError('Failed to convert image'))),
+      mimeType,
+      quality
+    )
+  )
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { getInputCategory } from './capabilities'
+import { detectFormat, withExtension } from './sniff'
+
+// The converter registry sizes its worker pool from `navigator`, which Node 20 lacks
+vi.hoisted(() => {
+  if (typeof navigator === 'undefined') vi.stubGlobal('navigator', { hardwareConcurrency: 1 })
+})
+
+const TIFF_HEADER = [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+describe('detectFormat', () => {
+  it('reports .tif files under the name the converters know', async () => {
+    const detected = await detectFormat(new File([new Uint8Array(TIFF_HEADER)], 'scan.tif', { type: 'image/tiff' }))
+    expect(detected).toEqual({ format: 'tiff', declared: 'tif', mismatch: false })
+    expect(getInputCategory(detected.format)).toBe('image')
+  })
+
+  it('keeps a more specific name that agrees with the content', async () => {
+    const detected = await detectFormat(new File([new Uint8Array(TIFF_HEADER)], 'scan.tiff'))
+    expect(detected.format).toBe('tiff')
+  })
+
+  it('uses the sniffed format when the name disagrees', async () => {
+    const detected = await detectFormat(new File([new Uint8Array(PNG_HEADER)], 'photo.tiff', { type: 'image/tiff' }))
+    expect(detected).toEqual({ format: 'png', declared: 'tiff', mismatch: true })
+  })
+})
+
+describe('withExtension', () => {
+  it('gives a mislabelled file the name and MIME type of its detected format', () => {
+    const file = withExtension(new File([new Uint8Array(PNG_HEADER)], 'photo.heic', { type: 'image/heic' }), 'png')
+    expect(file.name).toBe('photo.png')
+    expect(file.type).toBe('image/png')
+  })
+
+  it('returns a file that already matches unchanged', () => {
+    const file = new File([new Uint8Array(PNG_HEADER)], 'photo.png', { type: 'image/png' })
+    expect(withExtension(file, 'png')).toBe(file)
+  })
+})
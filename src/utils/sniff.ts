@@ -0,0 +1,229 @@
+import { readZip } from './zip'
+
+/**
+ * File type detection from content signatures ("magic bytes"). Results use
+ * the same lower-case extensions as the converter registry, so a sniffed
+ * format can stand in for the one the file name claims.
+ */
+
+/** Enough for every signature below, including SVG's XML prolog and Matroska's DocType */
+const HEADER_SIZE = 4096
+
+/** Extensions that name the same container; the file name may pick any of them */
+const EQUIVALENT_FORMATS = [
+  ['jpg', 'jpeg'],
+  ['tiff', 'tif'],
+  ['heic', 'heif'],
+  // ISO-BMFF brands are advisory, and players treat these interchangeably
+  ['mp4', 'm4v', 'm4a', 'mov'],
+  // WebM is a Matroska profile
+  ['webm', 'mkv'],
+  // ASF holds either; telling them apart means walking the stream headers
+  ['wmv', 'wma'],
+  // Ogg may carry Vorbis, Opus or FLAC
+  ['ogg', 'oga', 'opus'],
+  // .tgz is shorthand for .tar.gz
+  ['gz', 'tgz'],
+]
+
+/** Aliases the converter registry does not list, mapped to the name it knows the format by */
+const CANONICAL_FORMATS: Record<string, string> = { tif: 'tiff', oga: 'ogg', opus: 'ogg' }
+
+/** MIME types for detected formats, so a renamed file also stops claiming its old type */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  wma: 'audio/x-ms-wma',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  wmv: 'video/x-ms-wmv',
+  flv: 'video/x-flv',
+  pdf: 'application/pdf',
+  rtf: 'application/rtf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  odt: 'application/vnd.oasis.opendocument.text',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  zip: 'application/zip',
+  tar: 'application/x-tar',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length))
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+/** "BM" alone is too common at the start of text, so also check the reserved fields and DIB header size */
+const isBmpHeader = (bytes: Uint8Array) => {
+  if (bytes.length < 18) return false
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return view.getUint32(6, true) === 0 && [12, 40, 52, 56, 64, 108, 124].includes(view.getUint32(14, true))
+}
+
+/** ISO base media files (MP4, QuickTime, HEIF, AVIF) name their flavour in the ftyp major brand */
+const sniffIsoBmff = (brand: string): string => {
+  switch (brand.trim()) {
+    case 'M4A':
+    case 'M4B':
+      return 'm4a'
+    case 'M4V':
+      return 'm4v'
+    case 'qt':
+      return 'mov'
+    case 'heic':
+    case 'heix':
+    case 'heim':
+    case 'heis':
+    case 'mif1':
+    case 'msf1':
+      return 'heic'
+    case 'avif':
+    case 'avis':
+      return 'avif'
+    default:
+      return 'mp4'
+  }
+}
+
+/** OOXML and ODF are ZIP archives told apart by their manifest entries */
+async function sniffZip(file: Blob): Promise<string> {
+  try {
+    const names = new Set((await readZip(file)).map((entry) => entry.name))
+    if (names.has('word/document.xml')) return 'docx'
+    if (names.has('xl/workbook.xml')) return 'xlsx'
+    if (names.has('ppt/presentation.xml')) return 'pptx'
+  } catch {
+    // Fall through: a damaged directory still starts with a local file header
+  }
+  return 'zip'
+}
+
+/**
+ * Identify a file from its first bytes. Returns null for formats without a
+ * signature (plain text, Markdown) or content that matches nothing known.
+ */
+export async function sniffFormat(file: Blob): Promise<string | null> {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer())
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpg'
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'gif'
+  if (ascii(bytes, 0, 2) === 'BM' && isBmpHeader(bytes)) return 'bmp'
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff'
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    switch (ascii(bytes, 8, 4)) {
+      case 'WAVE':
+        return 'wav'
+      case 'AVI ':
+        return 'avi'
+      case 'WEBP':
+        return 'webp'
+    }
+  }
+
+  if (ascii(bytes, 4, 4) === 'ftyp') return sniffIsoBmff(ascii(bytes, 8, 4))
+
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // The EBML header's DocType element says "webm" or "matroska"
+    return ascii(bytes, 0, 64).includes('webm') ? 'webm' : 'mkv'
+  }
+
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg'
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac'
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3'
+  if (bytes[0] === 0xff) {
+    // A bare frame sync: ADTS (AAC) has layer bits 00, MP3 is MPEG audio layer III
+    if ((bytes[1] & 0xf6) === 0xf0) return 'aac'
+    if ((bytes[1] & 0xe6) === 0xe2 && (bytes[1] & 0x18) !== 0x08 && bytes[2] >> 4 !== 0x0f) return 'mp3'
+  }
+  if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) return 'wmv'
+  if (ascii(bytes, 0, 3) === 'FLV' && bytes[3] === 1) return 'flv'
+
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf'
+  if (ascii(bytes, 0, 5) === '{\\rtf') return 'rtf'
+
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    // ODF stores its MIME type uncompressed as the first entry
+    if (ascii(bytes, 30, 8) === 'mimetype') {
+      const mimeType = ascii(bytes, 38, 60)
+      if (mimeType.startsWith('application/vnd.oasis.opendocument.text')) return 'odt'
+    }
+    return sniffZip(file)
+  }
+  if (startsWith(bytes, [0x1f, 0x8b])) return 'gz'
+  // TAR has no leading signature; POSIX headers carry "ustar" in the first block
+  if (ascii(bytes, 257, 5) === 'ustar') return 'tar'
+
+  // TextDecoder drops a leading byte order mark
+  const text = new TextDecoder().decode(bytes).trimStart()
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) return 'svg'
+
+  return null
+}
+
+export const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+const isEquivalent = (a: string, b: string) =>
+  a === b || EQUIVALENT_FORMATS.some((group) => group.includes(a) && group.includes(b))
+
+export interface DetectedFormat {
+  /** The format to convert from */
+  format: string
+  /** The extension in the file name, '' when there is none */
+  declared: string
+  /** The name claims a different format than the content has */
+  mismatch: boolean
+}
+
+/**
+ * Settle on a file's format. The name wins when it agrees with the content
+ * (it may be more specific, e.g. .m4a over .mp4) or when the content has no
+ * recognisable signature; otherwise the sniffed format is used.
+ */
+export async function detectFormat(file: File): Promise<DetectedFormat> {
+  const declared = getExtension(file.name)
+  const sniffed = await sniffFormat(file)
+
+  if (!sniffed || (declared && isEquivalent(declared, sniffed))) {
+    return { format: CANONICAL_FORMATS[declared] ?? declared, declared, mismatch: false }
+  }
+  return { format: sniffed, declared, mismatch: declared !== '' }
+}
+
+/**
+ * Converters read the format from the name and MIME type, so give files a
+ * name and type that match their detected format
+ */
+export function withExtension(file: File, format: string): File {
+  const extension = getExtension(file.name)
+  const type = MIME_TYPES[format] ?? file.type
+  if (extension === format && file.type === type) return file
+  const baseName = extension ? file.name.slice(0, file.name.lastIndexOf('.')) : file.name
+  return new File([file], `${baseName}.${format}`, { type, lastModified: file.lastModified })
+}
@@ -0,0 +1,214 @@
+import { ByteWriter, hasAlpha, type RgbaImage } from './raster'
+
+/**
+ * Baseline TIFF encoder: 8-bit RGB, or RGBA with an unassociated alpha
+ * channel, split into strips of about 8 KB as the specification recommends.
+ * Strips can be stored raw, PackBits-compressed or LZW-compressed.
+ */
+
+export type TiffCompression = 'none' | 'packbits' | 'lzw'
+
+export interface TiffOptions {
+  /** Defaults to LZW, which every TIFF reader in practice supports */
+  compression?: TiffCompression
+}
+
+const COMPRESSION_TAGS: Record<TiffCompression, number> = { none: 1, lzw: 5, packbits: 32773 }
+
+const STRIP_SIZE = 8192
+
+const SHORT = 3
+const LONG = 4
+const RATIONAL = 5
+/** Bytes per stored number; a RATIONAL is written as two LONGs */
+const VALUE_SIZES: Record<number, number> = { [SHORT]: 2, [LONG]: 4, [RATIONAL]: 4 }
+
+const CLEAR_CODE = 256
+const END_CODE = 257
+const FIRST_CODE = 258
+/** Writers clear the table two codes early so no code ever needs 13 bits */
+const TABLE_LIMIT = 4094
+
+/** PackBits, applied per row: runs of a repeated byte, or up to 128 literal bytes */
+function packBits(row: Uint8Array, out: ByteWriter) {
+  let i = 0
+  while (i < row.length) {
+    let run = 1
+    while (i + run < row.length && run < 128 && row[i + run] === row[i]) run++
+    if (run > 1) {
+      out.byte(257 - run)
+      out.byte(row[i])
+      i += run
+      continue
+    }
+
+    const start = i
+    // A literal stops where a run of three starts, as that packs better as a run
+    while (i < row.length && i - start < 128) {
+      if (i + 2 < row.length && row[i] === row[i + 1] && row[i] === row[i + 2]) break
+      i++
+    }
+    out.byte(i - start - 1)
+    out.bytes(row.subarray(start, i))
+  }
+}
+
+/**
+ * TIFF's LZW differs from GIF's: codes are packed most significant bit
+ * first, and widen one code earlier ("early change").
+ */
+function lzwEncode(input: Uint8Array, out: ByteWriter) {
+  let codeSize = 9
+  let nextCode = FIRST_CODE
+  let table = new Map<number, number>()
+  let bits = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bits = (bits << codeSize) | code
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      bitCount -= 8
+      out.byte((bits >>> bitCount) & 0xff)
+    }
+    bits &= (1 << bitCount) - 1
+  }
+
+  // Mirrors the entry a decoder adds for every code after the first
+  const advance = () => {
+    if (++nextCode === TABLE_LIMIT) {
+      emit(CLEAR_CODE)
+      table = new Map()
+      codeSize = 9
+      nextCode = FIRST_CODE
+    } else if (nextCode >= 1 << codeSize) {
+      codeSize++
+    }
+  }
+
+  emit(CLEAR_CODE)
+  if (input.length) {
+    let prefix = input[0]
+    for (let i = 1; i < input.length; i++) {
+      const key = (prefix << 8) | input[i]
+      const code = table.get(key)
+      if (code !== undefined) {
+        prefix = code
+        continue
+      }
+      emit(prefix)
+      table.set(key, nextCode)
+      advance()
+      prefix = input[i]
+    }
+    emit(prefix)
+    advance()
+  }
+  emit(END_CODE)
+  if (bitCount > 0) out.byte((bits << (8 - bitCount)) & 0xff)
+}
+
+function encodeStrip(samples: Uint8Array, rowBytes: number, compression: TiffCompression): Uint8Array {
+  if (compression === 'none') return samples
+  const out = new ByteWriter()
+  if (compression === 'lzw') {
+    lzwEncode(samples, out)
+  } else {
+    for (let offset = 0; offset < samples.length; offset += rowBytes) {
+      packBits(samples.subarray(offset, offset + rowBytes), out)
+    }
+  }
+  return out.result()
+}
+
+export function encodeTiff(image: RgbaImage, options: TiffOptions = {}): Blob {
+  const { width, height, data } = image
+  const compression = options.compression ?? 'lzw'
+  const alpha = hasAlpha(image)
+  const samplesPerPixel = alpha ? 4 : 3
+  const rowBytes = width * samplesPerPixel
+  const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_SIZE / rowBytes)))
+
+  const strips: Uint8Array[] = []
+  for (let top = 0; top < height; top += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, height - top)
+    let samples: Uint8Array
+    if (alpha) {
+      samples = new Uint8Array(data.buffer, data.byteOffset + top * rowBytes, rows * rowBytes)
+    } else {
+      samples = new Uint8Array(rows * rowBytes)
+      for (let source = top * width * 4, target = 0; target < samples.length; source += 4) {
+        samples[target++] = data[source]
+        samples[target++] = data[source + 1]
+        samples[target++] = data[source + 2]
+      }
+    }
+    strips.push(encodeStrip(samples, rowBytes, compression))
+  }
+
+  // Strips come straight after the 8-byte header, then the IFD and the values too long to fit in it
+  const stripOffsets: number[] = []
+  let offset = 8
+  for (const strip of strips) {
+    stripOffsets.push(offset)
+    offset += strip.length
+  }
+  offset += offset % 2
+
+  const entries: [tag: number, type: number, values: number[]][] = [
+    [256, LONG, [width]], // ImageWidth
+    [257, LONG, [height]], // ImageLength
+    [258, SHORT, new Array(samplesPerPixel).fill(8)], // BitsPerSample
+    [259, SHORT, [COMPRESSION_TAGS[compression]]], // Compression
+    [262, SHORT, [2]], // PhotometricInterpretation: RGB
+    [273, LONG, stripOffsets], // StripOffsets
+    [277, SHORT, [samplesPerPixel]], // SamplesPerPixel
+    [278, LONG, [rowsPerStrip]], // RowsPerStrip
+    [279, LONG, strips.map((strip) => strip.length)], // StripByteCounts
+    [282, RATIONAL, [72, 1]], // XResolution
+    [283, RATIONAL, [72, 1]], // YResolution
+    [284, SHORT, [1]], // PlanarConfiguration: interleaved
+    [296, SHORT, [2]], // ResolutionUnit: inch
+  ]
+  if (alpha) entries.push([338, SHORT, [2]]) // ExtraSamples: unassociated alpha
+
+  const ifdOffset = offset
+  let valuesOffset = ifdOffset + 2 + entries.length * 12 + 4
+  const valueSize = ([, type, values]: (typeof entries)[number]) => values.length * VALUE_SIZES[type]
+  const outOfLine = entries.map(valueSize).filter((size) => size > 4)
+  const fileSize = valuesOffset + outOfLine.reduce((sum, size) => sum + size, 0)
+  if (fileSize > 0xffffffff) throw new Error('Image is too large for a TIFF file')
+
+  const buffer = new ArrayBuffer(fileSize)
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  bytes.set([0x49, 0x49, 42, 0]) // "II", little-endian, magic 42
+  view.setUint32(4, ifdOffset, true)
+  strips.forEach((strip, index) => bytes.set(strip, stripOffsets[index]))
+
+  const writeValues = (at: number, type: number, values: number[]) => {
+    values.forEach((value, index) => {
+      if (type === SHORT) view.setUint16(at + index * 2, value, true)
+      else view.setUint32(at + index * 4, value, true)
+    })
+  }
+
+  view.setUint16(ifdOffset, entries.length, true)
+  entries.forEach((entry, index) => {
+    const [tag, type, values] = entry
+    const at = ifdOffset + 2 + index * 12
+    view.setUint16(at, tag, true)
+    view.setUint16(at + 2, type, true)
+    view.setUint32(at + 4, type === RATIONAL ? values.length / 2 : values.length, true)
+    if (valueSize(entry) <= 4) {
+      writeValues(at + 8, type, values)
+    } else {
+      view.setUint32(at + 8, valuesOffset, true)
+      writeValues(valuesOffset, type, values)
+      valuesOffset += valueSize(entry)
+    }
+  })
+  // The next-IFD offset stays zero: this is the only image
+
+  return new Blob([buffer], { type: 'image/tiff' })
+}
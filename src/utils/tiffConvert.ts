@@ -0,0 +1,126 @@
+import type { ConversionProgress } from './fileConverter'
+import { createImagePdf, type PdfImage } from './pdfWriter'
+import { encodeImageData, type RasterOptions } from './rasterEncoders'
+import { decodeTiffPage, openTiff, type TiffPage } from './tiffDecoder'
+import { createZip } from './zip'
+
+/**
+ * TIFF pages to images or PDF. Like document conversion, this needs no DOM
+ * beyond an OffscreenCanvas for PNG/JPEG, so it runs in the conversion worker
+ * and on the main thread alike.
+ */
+
+export interface TiffConversion {
+  targetFormat: string
+  /** MIME type of the target format */
+  targetType: string
+  /** 1-based page, or 'all': every page in one PDF, or a ZIP with one image per page */
+  page: number | 'all'
+  quality?: number
+  raster?: RasterOptions
+}
+
+const POINTS_PER_INCH = 72
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Pack a page as compactly as PDF allows: black-and-white pages (fax, most
+ * scans) at 1 bit per pixel, other gray pages at 8, colour as RGB.
+ * Transparent areas are flattened onto a white page.
+ */
+async function toPdfImage(page: TiffPage): Promise<PdfImage> {
+  const { width, height, data } = page
+  const pixels = width * height
+  const rgb = new Uint8Array(pixels * 3)
+  let gray = true
+  let bilevel = true
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    const alpha = data[pixel * 4 + 3]
+    const background = 255 - alpha
+    for (let channel = 0; channel < 3; channel++) {
+      rgb[pixel * 3 + channel] = Math.round((data[pixel * 4 + channel] * alpha) / 255 + background)
+    }
+    const r = rgb[pixel * 3]
+    if (r !== rgb[pixel * 3 + 1] || r !== rgb[pixel * 3 + 2]) gray = bilevel = false
+    else if (r !== 0 && r !== 255) bilevel = false
+  }
+
+  let samples: Uint8Array = rgb
+  if (bilevel) {
+    const rowBytes = Math.ceil(width / 8)
+    samples = new Uint8Array(rowBytes * height)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (rgb[(y * width + x) * 3]) samples[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7)
+      }
+    }
+  } else if (gray) {
+    samples = rgb.filter((_, index) => index % 3 === 0)
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: gray ? 'DeviceGray' : 'DeviceRGB',
+    bitsPerComponent: bilevel ? 1 : 8,
+    data: await deflate(samples),
+    // Fax resolutions differ across and down (e.g. 204×196 DPI), so each axis is scaled on its own
+    pageWidth: (width * POINTS_PER_INCH) / (page.xResolution ?? POINTS_PER_INCH),
+    pageHeight: (height * POINTS_PER_INCH) / (page.yResolution ?? page.xResolution ?? POINTS_PER_INCH),
+  }
+}
+
+export async function convertTiffData(
+  name: string,
+  data: ArrayBuffer,
+  conversion: TiffConversion,
+  onProgress: (progress: ConversionProgress) => void
+): Promise<Blob> {
+  onProgress({ progress: 10, status: 'converting', message: 'Reading TIFF...' })
+  const tiff = openTiff(data)
+  const { targetFormat, targetType, page, quality, raster } = conversion
+  const pageNumbers = page === 'all' ? tiff.pages.map((_, index) => index + 1) : [page]
+  const count = pageNumbers.length
+  const baseName = name.replace(/\.[^.]+$/, '')
+  const digits = String(tiff.pages.length).length
+
+  const decodePage = (pageNumber: number, index: number) => {
+    onProgress({
+      progress: 10 + Math.round((80 * index) / count),
+      status: 'converting',
+      message: count > 1 ? `Decoding page ${pageNumber} of ${count}...` : 'Decoding image...',
+    })
+    return decodeTiffPage(tiff, pageNumber)
+  }
+
+  let blob: Blob
+  if (targetFormat === 'pdf') {
+    const images: PdfImage[] = []
+    for (const [index, pageNumber] of pageNumbers.entries()) {
+      images.push(await toPdfImage(await decodePage(pageNumber, index)))
+    }
+    onProgress({ progress: 90, status: 'converting', message: 'Creating PDF...' })
+    blob = createImagePdf(images, { title: baseName })
+  } else if (page !== 'all') {
+    const image = await decodePage(page, 0)
+    onProgress({ progress: 70, status: 'converting', message: 'Converting format...' })
+    blob = await encodeImageData(image, targetType, quality, raster)
+  } else {
+    const entries = []
+    for (const [index, pageNumber] of pageNumbers.entries()) {
+      entries.push({
+        name: `${baseName}-${String(pageNumber).padStart(digits, '0')}.${targetFormat}`,
+        data: await encodeImageData(await decodePage(pageNumber, index), targetType, quality, raster),
+      })
+    }
+    onProgress({ progress: 90, status: 'converting', message: 'Packaging pages...' })
+    blob = await createZip(entries)
+  }
+
+  onProgress({ progress: 100, status: 'completed' })
+  return blob
+}
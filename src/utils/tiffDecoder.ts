@@ -0,0 +1,424 @@
+import type { RgbaImage } from './raster'
+
+/**
+ * TIFF decoder for what scanners, fax software and image editors write in
+ * practice: strips or tiles; uncompressed, LZW, PackBits or Deflate; 1–16
+ * bits per sample; bilevel, grayscale, palette and RGB, with or without
+ * alpha. Every full-resolution image in the file is a page. Free of DOM
+ * APIs, so it runs in the conversion worker too.
+ */
+
+export interface TiffPage extends RgbaImage {
+  /** Pixels per inch, when the file records a physical resolution */
+  xResolution?: number
+  yResolution?: number
+}
+
+/** An image file directory: tag → values */
+type Directory = Map<number, number[]>
+
+export interface TiffFile {
+  bytes: Uint8Array
+  littleEndian: boolean
+  /** Full-resolution images; reduced-size previews are left out */
+  pages: Directory[]
+}
+
+const Tag = {
+  NewSubfileType: 254,
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  Photometric: 262,
+  FillOrder: 266,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfiguration: 284,
+  ResolutionUnit: 296,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  ExtraSamples: 338,
+  SampleFormat: 339,
+} as const
+
+const KNOWN_TAGS = new Set<number>(Object.values(Tag))
+
+/** Bytes per value of each field type; RATIONALs are read as one number */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  2: 'CCITT modified Huffman',
+  3: 'CCITT Group 3 fax',
+  4: 'CCITT Group 4 fax',
+  6: 'old-style JPEG',
+  7: 'JPEG',
+  34712: 'JPEG 2000',
+}
+
+const PHOTOMETRIC_NAMES: Record<number, string> = { 4: 'transparency mask', 5: 'CMYK', 6: 'YCbCr', 8: 'CIE L*a*b*' }
+
+function readValue(view: DataView, offset: number, type: number, littleEndian: boolean): number {
+  switch (type) {
+    case 3:
+      return view.getUint16(offset, littleEndian)
+    case 4:
+      return view.getUint32(offset, littleEndian)
+    case 5:
+      return view.getUint32(offset, littleEndian) / view.getUint32(offset + 4, littleEndian)
+    case 6:
+      return view.getInt8(offset)
+    case 8:
+      return view.getInt16(offset, littleEndian)
+    case 9:
+      return view.getInt32(offset, littleEndian)
+    case 10:
+      return view.getInt32(offset, littleEndian) / view.getInt32(offset + 4, littleEndian)
+    case 11:
+      return view.getFloat32(offset, littleEndian)
+    case 12:
+      return view.getFloat64(offset, littleEndian)
+    default:
+      return view.getUint8(offset)
+  }
+}
+
+/** Read the header and every image file directory; pixel data is left until a page is decoded */
+export function openTiff(data: ArrayBuffer): TiffFile {
+  const bytes = new Uint8Array(data)
+  const view = new DataView(data)
+  if (bytes.length < 8) throw new Error('Not a TIFF file')
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file')
+  const littleEndian = order === 0x4949
+  const magic = view.getUint16(2, littleEndian)
+  if (magic === 43) throw new Error('BigTIFF files are not supported')
+  if (magic !== 42) throw new Error('Not a TIFF file')
+
+  const pages: Directory[] = []
+  const visited = new Set<number>()
+  let offset = view.getUint32(4, littleEndian)
+  // A corrupt file can point back to an earlier directory
+  while (offset && !visited.has(offset) && offset + 2 <= bytes.length) {
+    visited.add(offset)
+    const count = view.getUint16(offset, littleEndian)
+    if (offset + 2 + count * 12 + 4 > bytes.length) break
+
+    const directory: Directory = new Map()
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12
+      const tag = view.getUint16(entry, littleEndian)
+      const type = view.getUint16(entry + 2, littleEndian)
+      const valueCount = view.getUint32(entry + 4, littleEndian)
+      const size = TYPE_SIZES[type]
+      if (!KNOWN_TAGS.has(tag) || !size) continue
+      const start = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+      if (start + size * valueCount > bytes.length) continue
+      const values: number[] = []
+      for (let value = 0; value < valueCount; value++) {
+        values.push(readValue(view, start + value * size, type, littleEndian))
+      }
+      directory.set(tag, values)
+    }
+
+    if (!((directory.get(Tag.NewSubfileType)?.[0] ?? 0) & 1)) pages.push(directory)
+    offset = view.getUint32(offset + 2 + count * 12, littleEndian)
+  }
+
+  if (!pages.length) throw new Error('The TIFF file contains no images')
+  return { bytes, littleEndian, pages }
+}
+
+/** TIFF's LZW: codes packed most significant bit first, widening one code early */
+function lzwDecode(input: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size)
+  const prefixes = new Uint16Array(4096)
+  const suffixes = new Uint8Array(4096)
+  const firsts = new Uint8Array(4096)
+  const lengths = new Uint16Array(4096)
+  for (let code = 0; code < 256; code++) {
+    suffixes[code] = firsts[code] = code
+    lengths[code] = 1
+  }
+
+  let codeSize = 9
+  let next = 258
+  let previous = -1
+  let position = 0
+  let bit = 0
+  const totalBits = input.length * 8
+
+  while (bit + codeSize <= totalBits && position < size) {
+    const byte = bit >> 3
+    const window = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0)
+    const code = (window >> (24 - (bit & 7) - codeSize)) & ((1 << codeSize) - 1)
+    bit += codeSize
+
+    if (code === 257) break
+    if (code === 256) {
+      codeSize = 9
+      next = 258
+      previous = -1
+      continue
+    }
+    if (previous < 0) {
+      if (code > 255) throw new Error('Corrupt LZW data in TIFF file')
+      output[position++] = code
+      previous = code
+      continue
+    }
+    if (code > next) throw new Error('Corrupt LZW data in TIFF file')
+
+    // The code can be the entry about to be added: the previous string plus its own first byte
+    if (next < 4096) {
+      prefixes[next] = previous
+      suffixes[next] = code < next ? firsts[code] : firsts[previous]
+      firsts[next] = firsts[previous]
+      lengths[next] = lengths[previous] + 1
+      next++
+      if (next >= (1 << codeSize) - 1 && codeSize < 12) codeSize++
+    }
+
+    const length = lengths[code]
+    for (let index = position + length - 1, current = code; index >= position; index--) {
+      if (index < size) output[index] = suffixes[current]
+      current = prefixes[current]
+    }
+    position += length
+    previous = code
+  }
+  return output
+}
+
+function packBitsDecode(input: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size)
+  let position = 0
+  for (let index = 0; index < input.length && position < size; ) {
+    const header = input[index++]
+    if (header < 128) {
+      output.set(input.subarray(index, index + Math.min(header + 1, size - position)), position)
+      position += header + 1
+      index += header + 1
+    } else if (header > 128) {
+      output.fill(input[index++], position, Math.min(position + 257 - header, size))
+      position += 257 - header
+    }
+  }
+  return output
+}
+
+async function inflate(input: Uint8Array, size: number): Promise<Uint8Array> {
+  const stream = new Blob([input as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'))
+  const inflated = new Uint8Array(await new Response(stream).arrayBuffer())
+  return padTo(inflated, size)
+}
+
+/** Short or truncated chunks decode as if the missing bytes were zero */
+function padTo(data: Uint8Array, size: number): Uint8Array {
+  if (data.length >= size) return data
+  const padded = new Uint8Array(size)
+  padded.set(data)
+  return padded
+}
+
+const REVERSED_BITS = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let reversed = 0
+  for (let bit = 0; bit < 8; bit++) reversed |= ((byte >> bit) & 1) << (7 - bit)
+  return reversed
+})
+
+async function decompress(input: Uint8Array, compression: number, size: number): Promise<Uint8Array> {
+  switch (compression) {
+    case 1:
+      return padTo(input, size)
+    case 5:
+      return lzwDecode(input, size)
+    case 8:
+    case 32946:
+      return inflate(input, size)
+    case 32773:
+      return packBitsDecode(input, size)
+    default:
+      throw new Error(`TIFF files with ${COMPRESSION_NAMES[compression] ?? `type ${compression}`} compression are not supported`)
+  }
+}
+
+/** Samples of one row of a chunk, unpacked to one array element each */
+function unpackRow(
+  data: Uint8Array,
+  start: number,
+  count: number,
+  bitsPerSample: number,
+  littleEndian: boolean,
+  row: Uint16Array
+) {
+  if (bitsPerSample === 8) {
+    for (let index = 0; index < count; index++) row[index] = data[start + index]
+  } else if (bitsPerSample === 16) {
+    for (let index = 0, at = start; index < count; index++, at += 2) {
+      row[index] = littleEndian ? data[at] | (data[at + 1] << 8) : (data[at] << 8) | data[at + 1]
+    }
+  } else {
+    const mask = (1 << bitsPerSample) - 1
+    for (let index = 0, bit = start * 8; index < count; index++, bit += bitsPerSample) {
+      row[index] = (data[bit >> 3] >> (8 - bitsPerSample - (bit & 7))) & mask
+    }
+  }
+}
+
+const resolutionOf = (directory: Directory, tag: number): number | undefined => {
+  const value = directory.get(tag)?.[0]
+  const unit = directory.get(Tag.ResolutionUnit)?.[0] ?? 2
+  if (!value || !Number.isFinite(value) || unit === 1) return undefined
+  // Unit 3 is centimetres
+  return unit === 3 ? value * 2.54 : value
+}
+
+/** Decode one page (1-based) to RGBA */
+export async function decodeTiffPage(tiff: TiffFile, pageNumber: number): Promise<TiffPage> {
+  const directory = tiff.pages[pageNumber - 1]
+  if (!directory) {
+    throw new Error(`Page ${pageNumber} does not exist (document has ${tiff.pages.length} pages)`)
+  }
+  const { bytes, littleEndian } = tiff
+  const get = (tag: number, fallback: number) => directory.get(tag)?.[0] ?? fallback
+
+  const width = get(Tag.ImageWidth, 0)
+  const height = get(Tag.ImageLength, 0)
+  if (!width || !height) throw new Error('The TIFF image has no size')
+  const samplesPerPixel = get(Tag.SamplesPerPixel, 1)
+  const bitsPerSample = get(Tag.BitsPerSample, 1)
+  if (![1, 2, 4, 8, 16].includes(bitsPerSample) || directory.get(Tag.BitsPerSample)?.some((bits) => bits !== bitsPerSample)) {
+    throw new Error(`TIFF images with ${bitsPerSample} bits per sample are not supported`)
+  }
+  if (get(Tag.SampleFormat, 1) !== 1) throw new Error('TIFF images with floating-point or signed samples are not supported')
+  const photometric = get(Tag.Photometric, samplesPerPixel >= 3 ? 2 : 1)
+  if (photometric > 3) {
+    throw new Error(`TIFF images in ${PHOTOMETRIC_NAMES[photometric] ?? `colour model ${photometric}`} are not supported`)
+  }
+  const colorMap = directory.get(Tag.ColorMap)
+  if (photometric === 3 && (!colorMap || colorMap.length < 3 << bitsPerSample)) {
+    throw new Error('The TIFF palette image has no colour map')
+  }
+  const compression = get(Tag.Compression, 1)
+  const predictor = get(Tag.Predictor, 1)
+  if (predictor !== 1 && predictor !== 2) throw new Error('TIFF floating-point prediction is not supported')
+
+  const planar = get(Tag.PlanarConfiguration, 1) === 2
+  const tiled = directory.has(Tag.TileWidth)
+  const chunkWidth = tiled ? get(Tag.TileWidth, width) : width
+  const chunkHeight = tiled ? get(Tag.TileLength, height) : Math.min(get(Tag.RowsPerStrip, height), height)
+  const across = Math.ceil(width / chunkWidth)
+  const perPlane = across * Math.ceil(height / chunkHeight)
+  const samplesPerChunkPixel = planar ? 1 : samplesPerPixel
+  const rowBytes = Math.ceil((chunkWidth * samplesPerChunkPixel * bitsPerSample) / 8)
+  const offsets = directory.get(tiled ? Tag.TileOffsets : Tag.StripOffsets) ?? []
+  const byteCounts = directory.get(tiled ? Tag.TileByteCounts : Tag.StripByteCounts)
+  const reverseBits = get(Tag.FillOrder, 1) === 2
+
+  const samples = new Uint16Array(width * height * samplesPerPixel)
+  const row = new Uint16Array(chunkWidth * samplesPerChunkPixel)
+
+  for (let chunk = 0; chunk < offsets.length && chunk < perPlane * (planar ? samplesPerPixel : 1); chunk++) {
+    const plane = Math.floor(chunk / perPlane)
+    const local = chunk % perPlane
+    const left = (local % across) * chunkWidth
+    const top = Math.floor(local / across) * chunkHeight
+    // The last strip is cut short; tiles are always whole and cropped here instead
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - top)
+    const size = rowBytes * rows
+    // Uncompressed files sometimes leave out the byte counts
+    const byteCount = byteCounts?.[chunk] ?? size
+    let raw = bytes.subarray(offsets[chunk], offsets[chunk] + byteCount)
+    if (reverseBits) raw = raw.map((byte) => REVERSED_BITS[byte])
+    const data = await decompress(raw, compression, size)
+
+    for (let y = 0; y < rows && top + y < height; y++) {
+      unpackRow(data, y * rowBytes, row.length, bitsPerSample, littleEndian, row)
+      if (predictor === 2) {
+        const modulus = 1 << bitsPerSample
+        for (let index = samplesPerChunkPixel; index < row.length; index++) {
+          row[index] = (row[index] + row[index - samplesPerChunkPixel]) % modulus
+        }
+      }
+      const visible = Math.min(chunkWidth, width - left)
+      let target = ((top + y) * width + left) * samplesPerPixel
+      for (let x = 0; x < visible; x++, target += samplesPerPixel) {
+        if (planar) {
+          samples[target + plane] = row[x]
+        } else {
+          for (let sample = 0; sample < samplesPerPixel; sample++) samples[target + sample] = row[x * samplesPerPixel + sample]
+        }
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    data: toRgba(samples, width * height, directory, samplesPerPixel, bitsPerSample, photometric),
+    xResolution: resolutionOf(directory, Tag.XResolution),
+    yResolution: resolutionOf(directory, Tag.YResolution),
+  }
+}
+
+function toRgba(
+  samples: Uint16Array,
+  pixels: number,
+  directory: Directory,
+  samplesPerPixel: number,
+  bitsPerSample: number,
+  photometric: number
+): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(pixels * 4)
+  const maximum = (1 << bitsPerSample) - 1
+  const colorSamples = photometric === 2 ? 3 : 1
+  // 1 is premultiplied alpha, 2 straight alpha; other extra samples carry no transparency
+  const extra = directory.get(Tag.ExtraSamples)?.[0]
+  const hasAlpha = samplesPerPixel > colorSamples && (extra === 1 || extra === 2)
+  const premultiplied = extra === 1
+  const colorMap = directory.get(Tag.ColorMap) ?? []
+  const paletteSize = 1 << bitsPerSample
+  const scale = (value: number) => (bitsPerSample === 16 ? value >> 8 : Math.round((value * 255) / maximum))
+
+  for (let pixel = 0, source = 0; pixel < pixels; pixel++, source += samplesPerPixel) {
+    const target = pixel * 4
+    let r: number
+    let g: number
+    let b: number
+    if (photometric === 3) {
+      const index = samples[source]
+      r = colorMap[index] >> 8
+      g = colorMap[paletteSize + index] >> 8
+      b = colorMap[2 * paletteSize + index] >> 8
+    } else if (photometric === 2) {
+      r = scale(samples[source])
+      g = scale(samples[source + 1])
+      b = scale(samples[source + 2])
+    } else {
+      const gray = scale(samples[source])
+      // Photometric 0 is WhiteIsZero, common in fax files
+      r = g = b = photometric === 0 ? 255 - gray : gray
+    }
+
+    const alpha = hasAlpha ? scale(samples[source + colorSamples]) : 255
+    if (premultiplied && alpha > 0 && alpha < 255) {
+      r = (r * 255) / alpha
+      g = (g * 255) / alpha
+      b = (b * 255) / alpha
+    }
+    rgba[target] = r
+    rgba[target + 1] = g
+    rgba[target + 2] = b
+    rgba[target + 3] = alpha
+  }
+  return rgba
+}
@@ -0,0 +1,52 @@
+/**
+ * 16-bit PCM WAV encoder for decoded Web Audio buffers.
+ */
+
+export interface PcmAudio {
+  sampleRate: number
+  /** One Float32Array of samples in [-1, 1] per channel */
+  channels: Float32Array[]
+}
+
+export function encodeWav({ sampleRate, channels }: PcmAudio): Blob {
+  const channelCount = channels.length
+  const frameCount = channels[0]?.length ?? 0
+  const blockAlign = channelCount * 2
+  const dataSize = frameCount * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i))
+  }
+
+  writeTag(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeTag(8, 'WAVE')
+  writeTag(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, 16, true)
+  writeTag(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = 44
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][frame]))
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += 2
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+export const audioBufferToPcm = (buffer: AudioBuffer): PcmAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)),
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+
+import { createZipStream, readZip } from './zip'
+
+/**
+ * A one-entry stored archive written the way ZIP64 tools write it: every
+ * size, offset and count in the ordinary records saturated, and the real
+ * values in the ZIP64 extra field and end-of-central-directory record.
+ */
+const zip64Of = (name: string, data: Uint8Array) => {
+  const nameBytes = new TextEncoder().encode(name)
+  const local = new DataView(new ArrayBuffer(30 + nameBytes.length))
+  local.setUint32(0, 0x04034b50, true)
+  local.setUint16(4, 45, true)
+  local.setUint32(18, data.length, true)
+  local.setUint32(22, data.length, true)
+  local.setUint16(26, nameBytes.length, true)
+  new Uint8Array(local.buffer).set(nameBytes, 30)
+
+  const central = new DataView(new ArrayBuffer(46 + nameBytes.length + 28))
+  central.setUint32(0, 0x02014b50, true)
+  central.setUint16(6, 45, true)
+  central.setUint32(20, 0xffffffff, true)
+  central.setUint32(24, 0xffffffff, true)
+  central.setUint16(28, nameBytes.length, true)
+  central.setUint16(30, 28, true)
+  central.setUint32(42, 0xffffffff, true)
+  new Uint8Array(central.buffer).set(nameBytes, 46)
+  const extra = 46 + nameBytes.length
+  central.setUint16(extra, 0x0001, true)
+  central.setUint16(extra + 2, 24, true)
+  central.setBigUint64(extra + 4, BigInt(data.length), true)
+  central.setBigUint64(extra + 12, BigInt(data.length), true)
+  central.setBigUint64(extra + 20, 0n, true)
+
+  const directoryOffset = local.byteLength + data.length
+  const end = new DataView(new ArrayBuffer(56 + 20 + 22))
+  end.setUint32(0, 0x06064b50, true)
+  end.setBigUint64(4, 44n, true)
+  end.setBigUint64(24, 1n, true)
+  end.setBigUint64(32, 1n, true)
+  end.setBigUint64(40, BigInt(central.byteLength), true)
+  end.setBigUint64(48, BigInt(directoryOffset), true)
+  end.setUint32(56, 0x07064b50, true)
+  end.setBigUint64(64, BigInt(directoryOffset + central.byteLength), true)
+  end.setUint32(72, 1, true)
+  end.setUint32(76, 0x06054b50, true)
+  end.setUint16(84, 0xffff, true)
+  end.setUint16(86, 0xffff, true)
+  end.setUint32(88, 0xffffffff, true)
+  end.setUint32(92, 0xffffffff, true)
+
+  return new Blob([local.buffer, data as BlobPart, central.buffer, end.buffer])
+}
+
+describe('readZip', () => {
+  it('reads back what createZipStream writes', async () => {
+    const stream = createZipStream([
+      { name: 'a.txt', data: new Blob(['first']) },
+      { name: 'b.txt', data: new Blob(['second']), compress: true },
+    ])
+    const entries = await readZip(await new Response(stream).blob())
+    const texts = await Promise.all(entries.map(async (entry) => new TextDecoder().decode(await entry.read())))
+    expect(entries.map((entry) => entry.name)).toEqual(['a.txt', 'b.txt'])
+    expect(texts).toEqual(['first', 'second'])
+  })
+
+  it('takes sizes, offsets and counts from the ZIP64 records', async () => {
+    const entries = await readZip(zip64Of('big.bin', new TextEncoder().encode('zip64 data')))
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ name: 'big.bin', size: 10, compressedSize: 10 })
+    expect(new TextDecoder().decode(await entries[0].read())).toBe('zip64 data')
+  })
+
+  it('rejects saturated fields without a ZIP64 record', async () => {
+    const bytes = new Uint8Array(await zip64Of('big.bin', new Uint8Array(4)).arrayBuffer())
+    // Overwrite the locator's signature
+    bytes.fill(0, bytes.length - 22 - 20, bytes.length - 22 - 16)
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow('ZIP64')
+  })
+})
@@ -0,0 +1,456 @@
+/**
+ * ZIP archive helpers.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, using '/' as separator */
+  name: string
+  data: Uint8Array | Blob
+  lastModified?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ 0xffffffff) >>> 0
+}
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/** Build an uncompressed ("stored") ZIP archive from in-memory entries */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const data = entry.data instanceof Blob ? new Uint8Array(await entry.data.arrayBuffer()) : entry.data
+    const name = encoder.encode(entry.name)
+    const crc = crc32(data)
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed to extract
+    local.setUint16(6, 0x0800, true) // UTF-8 file names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true) // version made by
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(local.buffer, name, data as BlobPart)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...(centralDirectory as BlobPart[]), end.buffer], { type: 'application/zip' })
+}
+
+export interface ZipStreamEntry {
+  /** Path inside the archive, using '/' as separator */
+  name: string
+  data: Blob
+  lastModified?: Date
+  /** Deflate the entry; otherwise it is stored as is */
+  compress?: boolean
+}
+
+const MAX_UINT32 = 0xffffffff
+const MAX_UINT16 = 0xffff
+/** Deflate can grow incompressible data slightly, so switch to ZIP64 a little early */
+const ZIP64_ENTRY_THRESHOLD = MAX_UINT32 - 0x100000
+
+interface CentralRecord {
+  name: Uint8Array
+  method: number
+  time: number
+  date: number
+  crc: number
+  size: number
+  compressedSize: number
+  offset: number
+}
+
+async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  const zip64 = record.size >= MAX_UINT32 || record.compressedSize >= MAX_UINT32 || record.offset >= MAX_UINT32
+  const extraLength = zip64 ? 28 : 0
+  const header = new DataView(new ArrayBuffer(46 + record.name.length + extraLength))
+  header.setUint32(0, 0x02014b50, true)
+  header.setUint16(4, 45, true) // version made by
+  header.setUint16(6, zip64 ? 45 : 20, true)
+  header.setUint16(8, 0x0808, true) // UTF-8 file names, sizes in a data descriptor
+  header.setUint16(10, record.method, true)
+  header.setUint16(12, record.time, true)
+  header.setUint16(14, record.date, true)
+  header.setUint32(16, record.crc, true)
+  header.setUint32(20, zip64 ? MAX_UINT32 : record.compressedSize, true)
+  header.setUint32(24, zip64 ? MAX_UINT32 : record.size, true)
+  header.setUint16(28, record.name.length, true)
+  header.setUint16(30, extraLength, true)
+  header.setUint32(42, zip64 ? MAX_UINT32 : record.offset, true)
+  new Uint8Array(header.buffer).set(record.name, 46)
+
+  if (zip64) {
+    // Every field set to 0xffffffff above is carried here, in this order
+    const extra = 46 + record.name.length
+    header.setUint16(extra, 0x0001, true)
+    header.setUint16(extra + 2, 24, true)
+    header.setBigUint64(extra + 4, BigInt(record.size), true)
+    header.setBigUint64(extra + 12, BigInt(record.compressedSize), true)
+    header.setBigUint64(extra + 20, BigInt(record.offset), true)
+  }
+  return new Uint8Array(header.buffer)
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+  const zip64 = count >= MAX_UINT16 || size >= MAX_UINT32 || offset >= MAX_UINT32
+  const end = new DataView(new ArrayBuffer(zip64 ? 56 + 20 + 22 : 22))
+  let pos = 0
+
+  if (zip64) {
+    end.setUint32(0, 0x06064b50, true)
+    end.setBigUint64(4, 44n, true) // size of the rest of this record
+    end.setUint16(12, 45, true)
+    end.setUint16(14, 45, true)
+    end.setBigUint64(24, BigInt(count), true)
+    end.setBigUint64(32, BigInt(count), true)
+    end.setBigUint64(40, BigInt(size), true)
+    end.setBigUint64(48, BigInt(offset), true)
+
+    // The locator points back at the ZIP64 record, which starts right after the central directory
+    end.setUint32(56, 0x07064b50, true)
+    end.setBigUint64(64, BigInt(offset + size), true)
+    end.setUint32(72, 1, true)
+    pos = 76
+  }
+
+  end.setUint32(pos, 0x06054b50, true)
+  end.setUint16(pos + 8, Math.min(count, MAX_UINT16), true)
+  end.setUint16(pos + 10, Math.min(count, MAX_UINT16), true)
+  end.setUint32(pos + 12, Math.min(size, MAX_UINT32), true)
+  end.setUint32(pos + 16, Math.min(offset, MAX_UINT32), true)
+  return new Uint8Array(end.buffer)
+}
+
+async function* zipChunks(entries: Iterable<ZipStreamEntry> | AsyncIterable<ZipStreamEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  const records: CentralRecord[] = []
+  let offset = 0
+
+  for await (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const method = entry.compress ? 8 : 0
+    const zip64 = entry.data.size >= ZIP64_ENTRY_THRESHOLD
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date())
+
+    // CRC and sizes are not known until the data has streamed past, so they follow it in a data descriptor
+    const local = new DataView(new ArrayBuffer(30 + name.length + (zip64 ? 20 : 0)))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, zip64 ? 45 : 20, true)
+    local.setUint16(6, 0x0808, true)
+    local.setUint16(8, method, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(18, zip64 ? MAX_UINT32 : 0, true)
+    local.setUint32(22, zip64 ? MAX_UINT32 : 0, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, zip64 ? 20 : 0, true)
+    new Uint8Array(local.buffer).set(name, 30)
+    if (zip64) {
+      local.setUint16(30 + name.length, 0x0001, true)
+      local.setUint16(32 + name.length, 16, true)
+    }
+    yield new Uint8Array(local.buffer)
+
+    let crc = 0
+    let size = 0
+    let compressedSize = 0
+    const source = entry.data.stream().pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          crc = crc32(chunk, crc)
+          size += chunk.length
+          controller.enqueue(chunk)
+        },
+      })
+    )
+    const data = method === 8 ? source.pipeThrough(new CompressionStream('deflate-raw')) : source
+    for await (const chunk of readChunks(data)) {
+      compressedSize += chunk.length
+      yield chunk
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(zip64 ? 24 : 16))
+    descriptor.setUint32(0, 0x08074b50, true)
+    descriptor.setUint32(4, crc, true)
+    if (zip64) {
+      descriptor.setBigUint64(8, BigInt(compressedSize), true)
+      descriptor.setBigUint64(16, BigInt(size), true)
+    } else {
+      descriptor.setUint32(8, compressedSize, true)
+      descriptor.setUint32(12, size, true)
+    }
+    yield new Uint8Array(descriptor.buffer)
+
+    records.push({ name, method, time, date, crc, size, compressedSize, offset })
+    offset += local.byteLength + compressedSize + descriptor.byteLength
+  }
+
+  let centralSize = 0
+  for (const record of records) {
+    const header = centralHeader(record)
+    centralSize += header.length
+    yield header
+  }
+  yield endOfCentralDirectory(records.length, centralSize, offset)
+}
+
+/**
+ * Write a ZIP archive as a stream. Entries are read one at a time and never
+ * held in memory whole, and ZIP64 records are added once entries or the
+ * archive outgrow the classic 4 GiB limits.
+ */
+export function createZipStream(entries: Iterable<ZipStreamEntry> | AsyncIterable<ZipStreamEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries)
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
+
+export interface ZipFileEntry {
+  name: string
+  size: number
+  compressedSize: number
+  lastModified: Date
+  isDirectory: boolean
+  read(): Promise<Uint8Array>
+  /**
+   * The entry's contents without buffering them; stored entries are a slice
+   * of the archive. Fails with a RangeError once they pass `maxSize` bytes.
+   */
+  blob(maxSize?: number): Promise<Blob>
+}
+
+/** Pass data through until more than `maxSize` bytes have gone by, then fail with a RangeError */
+export const limitSize = (maxSize: number) => {
+  let total = 0
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length
+      if (total > maxSize) controller.error(new RangeError(`Data exceeds ${maxSize} bytes`))
+      else controller.enqueue(chunk)
+    },
+  })
+}
+
+const fromDosDateTime = (time: number, date: number): Date =>
+  new Date(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/** The ZIP64 end-of-central-directory record, found through the locator just before the ordinary one */
+async function readZip64End(source: Blob, eocdOffset: number): Promise<DataView> {
+  const locator = new DataView(await source.slice(Math.max(0, eocdOffset - 20), eocdOffset).arrayBuffer())
+  if (locator.byteLength < 20 || locator.getUint32(0, true) !== 0x07064b50) {
+    throw new Error('Corrupt ZIP64 archive: the end-of-central-directory locator is missing')
+  }
+  const offset = Number(locator.getBigUint64(8, true))
+  const end = new DataView(await source.slice(offset, offset + 56).arrayBuffer())
+  if (end.byteLength < 56 || end.getUint32(0, true) !== 0x06064b50) {
+    throw new Error('Corrupt ZIP64 archive: the end-of-central-directory record is missing')
+  }
+  return end
+}
+
+/** Where the data of the ZIP64 extra field (ID 0x0001) starts, or -1 when there is none */
+function findZip64Extra(view: DataView, start: number, length: number): number {
+  for (let pos = start; pos + 4 <= start + length; pos += 4 + view.getUint16(pos + 2, true)) {
+    if (view.getUint16(pos, true) === 0x0001) return pos + 4
+  }
+  return -1
+}
+
+/**
+ * Read the central directory of a ZIP archive. Entry data is only
+ * decompressed when `read()` is called.
+ */
+export async function readZip(source: Blob): Promise<ZipFileEntry[]> {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  const tailStart = Math.max(0, source.size - 22 - 0xffff)
+  const tail = new DataView(await source.slice(tailStart).arrayBuffer())
+
+  let eocd = -1
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive')
+  }
+
+  let entryCount = tail.getUint16(eocd + 10, true)
+  let directorySize = tail.getUint32(eocd + 12, true)
+  let directoryOffset = tail.getUint32(eocd + 16, true)
+  // Fields too small for their value are saturated, and the real ones are in the ZIP64 record
+  if (entryCount === MAX_UINT16 || directorySize === MAX_UINT32 || directoryOffset === MAX_UINT32) {
+    const end = await readZip64End(source, tailStart + eocd)
+    entryCount = Number(end.getBigUint64(32, true))
+    directorySize = Number(end.getBigUint64(40, true))
+    directoryOffset = Number(end.getBigUint64(48, true))
+  }
+  const directory = new DataView(await source.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer())
+  // Names without the UTF-8 flag are nominally code page 437, which TextDecoder
+  // does not offer; they are almost always plain ASCII, so decode them as UTF-8 too
+  const decoder = new TextDecoder()
+
+  const entries: ZipFileEntry[] = []
+  let pos = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(pos, true) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+    const flags = directory.getUint16(pos + 8, true)
+    const method = directory.getUint16(pos + 10, true)
+    const time = directory.getUint16(pos + 12, true)
+    const date = directory.getUint16(pos + 14, true)
+    let compressedSize = directory.getUint32(pos + 20, true)
+    let size = directory.getUint32(pos + 24, true)
+    const nameLength = directory.getUint16(pos + 28, true)
+    const extraLength = directory.getUint16(pos + 30, true)
+    const commentLength = directory.getUint16(pos + 32, true)
+    let localOffset = directory.getUint32(pos + 42, true)
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength)
+    const name = decoder.decode(nameBytes)
+
+    if (size === MAX_UINT32 || compressedSize === MAX_UINT32 || localOffset === MAX_UINT32) {
+      // The ZIP64 extra field holds just the saturated fields, in this order
+      let field = findZip64Extra(directory, pos + 46 + nameLength, extraLength)
+      if (field < 0) throw new Error(`Corrupt ZIP64 entry (${name})`)
+      const next = () => {
+        const value = Number(directory.getBigUint64(field, true))
+        field += 8
+        return value
+      }
+      if (size === MAX_UINT32) size = next()
+      if (compressedSize === MAX_UINT32) compressedSize = next()
+      if (localOffset === MAX_UINT32) localOffset = next()
+    }
+    pos += 46 + nameLength + extraLength + commentLength
+
+    if (flags & 0x0001) {
+      throw new Error(`Encrypted ZIP entries are not supported (${name})`)
+    }
+
+    const readRaw = async () => {
+      const header = new DataView(await source.slice(localOffset, localOffset + 30).arrayBuffer())
+      const dataStart = localOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+      return source.slice(dataStart, dataStart + compressedSize)
+    }
+    const unsupported = () => new Error(`Unsupported ZIP compression method ${method} (${name})`)
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      lastModified: fromDosDateTime(time, date),
+      isDirectory: name.endsWith('/'),
+      read: async () => {
+        const raw = new Uint8Array(await (await readRaw()).arrayBuffer())
+        if (method === 0) return raw
+        if (method === 8) return inflateRaw(raw)
+        throw unsupported()
+      },
+      blob: async (maxSize = Infinity) => {
+        const raw = await readRaw()
+        if (method === 0) {
+          if (raw.size > maxSize) throw new RangeError(`Data exceeds ${maxSize} bytes`)
+          return raw
+        }
+        if (method !== 8) throw unsupported()
+        // Declared sizes cannot be trusted, so the inflated bytes themselves are counted
+        const inflated = raw.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+        return new Response(maxSize === Infinity ? inflated : inflated.pipeThrough(limitSize(maxSize))).blob()
+      },
+    })
+  }
+
+  return entries
+}
+
+/** Read an entry by path and decode it as UTF-8, or null when the archive has no such entry */
+export async function readZipEntryText(entries: ZipFileEntry[], path: string): Promise<string | null> {
+  const entry = entries.find((candidate) => candidate.name === path)
+  return entry ? new TextDecoder().decode(await entry.read()) : null
+}
@@ -0,0 +1,72 @@
+import { convertDocumentData } from '../utils/documents/convert'
+import { isRetryable } from '../utils/errors'
+import type { ConversionProgress } from '../utils/fileConverter'
+import { convertHeifData } from '../utils/heifConvert'
+import { encodeRaster, hasRasterEncoder } from '../utils/rasterEncoders'
+import { convertTiffData } from '../utils/tiffConvert'
+import { encodeWav } from '../utils/wav'
+import type { WorkerRequest, WorkerResponse, WorkerTask } from './protocol'
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer })
+
+async function encodeImage(
+  task: Extract<WorkerTask, { kind: 'image' }>,
+  onProgress: (progress: ConversionProgress) => void
+): Promise<Blob> {
+  onProgress({ progress: 10, status: 'converting', message: 'Processing image...' })
+  const bitmap = await createImageBitmap(new Blob([task.data], { type: task.sourceType }))
+
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('OffscreenCanvas 2D context is unavailable')
+    }
+    ctx.drawImage(bitmap, 0, 0)
+
+    onProgress({ progress: 50, status: 'converting', message: 'Converting format...' })
+    const blob =
+      hasRasterEncoder(task.targetType)
+        ? encodeRaster(task.targetType, ctx.getImageData(0, 0, bitmap.width, bitmap.height), task.raster)
+        : await canvas.convertToBlob({ type: task.targetType, quality: task.quality })
+    onProgress({ progress: 100, status: 'completed' })
+    return blob
+  } finally {
+    bitmap.close()
+  }
+}
+
+async function runTask(task: WorkerTask, onProgress: (progress: ConversionProgress) => void): Promise<Blob> {
+  switch (task.kind) {
+    case 'image':
+      return encodeImage(task, onProgress)
+    case 'document':
+      return convertDocumentData(task.name, new Blob([task.data]), task.targetFormat, onProgress)
+    case 'tiff':
+      return convertTiffData(task.name, task.data, task.conversion, onProgress)
+    case 'heif':
+      return convertHeifData(task.data, task.conversion, onProgress)
+    case 'wav': {
+      onProgress({ progress: 70, status: 'converting', message: 'Encoding WAV...' })
+      const blob = encodeWav(task)
+      onProgress({ progress: 100, status: 'completed' })
+      return blob
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, task } = event.data
+  try {
+    const blob = await runTask(task, (progress) => post({ id, type: 'progress', progress }))
+    const data = await blob.arrayBuffer()
+    post({ id, type: 'result', data, mimeType: blob.type }, [data])
+  } catch (error) {
+    post({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      retryable: isRetryable(error),
+    })
+  }
+}
@@ -0,0 +1,121 @@
+import { abortReason, onAbort } from '../utils/abort'
+import { RetryableError } from '../utils/errors'
+import type { ConversionProgress } from '../utils/fileConverter'
+import { getTransferables, type WorkerRequest, type WorkerResponse, type WorkerTask } from './protocol'
+
+interface PendingTask {
+  request: WorkerRequest
+  onProgress: (progress: ConversionProgress) => void
+  resolve: (blob: Blob) => void
+  reject: (error: unknown) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  task?: PendingTask
+}
+
+/** Module workers plus an off-DOM canvas are needed for the image path */
+export const supportsWorkers = () => typeof Worker !== 'undefined'
+export const supportsOffscreenCanvas = () => supportsWorkers() && typeof OffscreenCanvas !== 'undefined'
+
+/**
+ * A fixed-size pool of conversion workers. Workers are started on first use;
+ * tasks beyond the pool size wait in FIFO order. Aborting a running task
+ * terminates its worker, since synchronous encoder loops cannot be
+ * interrupted any other way.
+ */
+export class WorkerPool {
+  private workers: PoolWorker[] = []
+  private queue: PendingTask[] = []
+  private nextId = 1
+  private readonly size: number
+
+  constructor(size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))) {
+    this.size = size
+  }
+
+  run(task: WorkerTask, onProgress: (progress: ConversionProgress) => void, signal?: AbortSignal): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+      const pending: PendingTask = { request: { id: this.nextId++, task }, onProgress, resolve, reject }
+
+      const detachAbort = onAbort(signal, () => {
+        const slot = this.workers.find((candidate) => candidate.task === pending)
+        if (slot) {
+          this.discard(slot)
+        } else {
+          this.queue = this.queue.filter((queued) => queued !== pending)
+        }
+        reject(abortReason(signal!))
+        this.dispatch()
+      })
+      if (signal?.aborted) return
+
+      pending.resolve = (blob) => {
+        detachAbort()
+        resolve(blob)
+      }
+      pending.reject = (error) => {
+        detachAbort()
+        reject(error)
+      }
+      this.queue.push(pending)
+      this.dispatch()
+    })
+  }
+
+  private discard(slot: PoolWorker) {
+    slot.worker.terminate()
+    this.workers = this.workers.filter((candidate) => candidate !== slot)
+  }
+
+  private dispatch() {
+    while (this.queue.length) {
+      const slot = this.workers.find((candidate) => !candidate.task) ?? this.spawn()
+      if (!slot) return
+      const pending = this.queue.shift()!
+      slot.task = pending
+      slot.worker.postMessage(pending.request, getTransferables(pending.request.task))
+    }
+  }
+
+  private spawn(): PoolWorker | undefined {
+    if (this.workers.length >= this.size) return undefined
+
+    const slot: PoolWorker = {
+      worker: new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' }),
+    }
+
+    slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data
+      const pending = slot.task
+      if (!pending || pending.request.id !== response.id) return
+
+      if (response.type === 'progress') {
+        pending.onProgress(response.progress)
+        return
+      }
+
+      slot.task = undefined
+      if (response.type === 'result') {
+        pending.resolve(new Blob([response.data], { type: response.mimeType }))
+      } else {
+        pending.reject(response.retryable ? new RetryableError(response.message) : new Error(response.message))
+      }
+      this.dispatch()
+    }
+
+    // An uncaught error (e.g. running out of memory) leaves the worker in an unknown state
+    slot.worker.onerror = (event) => {
+      event.preventDefault()
+      slot.task?.reject(new RetryableError(event.message || 'Conversion worker crashed'))
+      this.discard(slot)
+      this.dispatch()
+    }
+
+    this.workers.push(slot)
+    return slot
+  }
+}
+
+export const workerPool = new WorkerPool()
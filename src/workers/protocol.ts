@@ -0,0 +1,59 @@
+import type { ConversionProgress } from '../utils/fileConverter'
+import type { HeifConversion } from '../utils/heifConvert'
+import type { RasterOptions } from '../utils/rasterEncoders'
+import type { TiffConversion } from '../utils/tiffConvert'
+
+/**
+ * Messages exchanged between the main thread and conversion workers. Input
+ * and output bytes travel as transferable ArrayBuffers, so large files are
+ * moved rather than copied.
+ */
+
+export type WorkerTask =
+  | {
+      kind: 'image'
+      data: ArrayBuffer
+      /** MIME type of the source image, used to decode it */
+      sourceType: string
+      targetType: string
+      quality?: number
+      /** For target types the canvas cannot encode, see `hasRasterEncoder` */
+      raster?: RasterOptions
+    }
+  | {
+      kind: 'document'
+      data: ArrayBuffer
+      /** Source file name; its extension selects the reader */
+      name: string
+      targetFormat: string
+    }
+  | {
+      kind: 'tiff'
+      data: ArrayBuffer
+      name: string
+      conversion: TiffConversion
+    }
+  | {
+      kind: 'heif'
+      data: ArrayBuffer
+      conversion: HeifConversion
+    }
+  | {
+      kind: 'wav'
+      sampleRate: number
+      channels: Float32Array[]
+    }
+
+export interface WorkerRequest {
+  id: number
+  task: WorkerTask
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: ConversionProgress }
+  | { id: number; type: 'result'; data: ArrayBuffer; mimeType: string }
+  | { id: number; type: 'error'; message: string; retryable: boolean }
+
+/** Buffers to hand over with a task instead of cloning them */
+export const getTransferables = (task: WorkerTask): ArrayBuffer[] =>
+  task.kind === 'wav' ? task.channels.map((channel) => channel.buffer as ArrayBuffer) : [task.data]
@@ -9,6 +9,14 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // The conversion worker loads the HEIF decoders on demand, which needs ES module chunks
+  worker: {
+    format: 'es',
+  },
+  // Pre-bundling would move the AVIF decoder away from the .wasm file it locates by URL
+  optimizeDeps: {
+    exclude: ['@jsquash/avif'],
+  },
   server: {
     port: 3000,
     strictPort: true,